@@ -76,9 +76,13 @@ async function main() {
       const title = escapeHtml(event.name || `Cafe2035 ${event.city || ''}`);
       const date = formatDate(event.date);
       const city = event.city || '';
+      const talkSeconds = (event.format?.slideCount ?? 20) * (event.format?.slideSeconds ?? 15);
+      const talkLength = talkSeconds % 60 === 0
+        ? `${talkSeconds / 60} minutes`
+        : `${Math.floor(talkSeconds / 60)}:${String(talkSeconds % 60).padStart(2, '0')} minutes`;
       const description = escapeHtml(
         `Stories from the future — ${date} in ${city}. ` +
-        `${event.presentations?.length || 0} speakers, 5 minutes each.`
+        `${event.presentations?.length || 0} speakers, ${talkLength} each.`
       );
 
       // Find recording for video card
@@ -0,0 +1,107 @@
+/**
+ * Local WebSocket relay for the phone remote.
+ *
+ * Every client joins a room (the event id, from ?room=...) and each text
+ * message is forwarded to the other clients in that room. Only a client on
+ * this machine, i.e. the event window, can open a room; it brings the room's
+ * token (?token=..., made by the event window and carried in the remote link).
+ * Phones can only join an open room with that token, so nobody else on the
+ * network can drive the show or lock the event window out. The relay keeps no
+ * other state: the event window stays the single source of truth.
+ *
+ * Usage: npm run relay -- [port] [--verbose]   (default 8787)
+ * Then open the remote link from the event window on a phone on the same network.
+ * Browsers block ws:// from an https page: run the app over http on the laptop.
+ */
+import { networkInterfaces } from 'node:os';
+import { WebSocketServer } from 'ws';
+
+const args = process.argv.slice(2);
+const VERBOSE = args.includes('--verbose');
+const PORT = Number(args.find((a) => !a.startsWith('--')) || process.env.PORT || 8787);
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const MIN_TOKEN_LENGTH = 16;
+
+/** @type {Map<string, { token: string, members: Set<import('ws').WebSocket>, hosts: Set<import('ws').WebSocket> }>} */
+const rooms = new Map();
+
+/** @param {string} message */
+function debug(message) {
+  if (VERBOSE) console.log(`[Relay] ${message}`);
+}
+
+/**
+ * Whether a client connects from this machine, over loopback or one of its own addresses
+ * @param {string | undefined} address
+ */
+function isSameMachine(address) {
+  if (!address) return false;
+  const ip = address.replace(/^::ffff:/, '');
+  if (ip === '127.0.0.1' || ip === '::1') return true;
+  return Object.values(networkInterfaces()).some((list) => list?.some((i) => i.address === ip));
+}
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const roomId = url.searchParams.get('room');
+  const token = url.searchParams.get('token');
+  if (!roomId) {
+    socket.close(1008, 'Missing room');
+    return;
+  }
+  if (!token || token.length < MIN_TOKEN_LENGTH) {
+    socket.close(1008, 'Missing token');
+    return;
+  }
+
+  const isEventWindow = isSameMachine(request.socket.remoteAddress);
+  let room = rooms.get(roomId);
+  if (room && room.token !== token && isEventWindow && room.hosts.size === 0) {
+    // The event window is back with a new token (another browser, cleared storage): phones of the old one go
+    debug(`Event window reopened ${roomId} with a new token`);
+    for (const member of room.members) member.close(1008, 'Wrong token');
+    rooms.delete(roomId);
+    room = undefined;
+  }
+  if (!room) {
+    if (!isEventWindow) {
+      // Phones wait for the event window; they reconnect until it is up
+      debug(`Rejected a client for ${roomId}: no event window yet`);
+      socket.close(1008, 'No such room');
+      return;
+    }
+    room = { token, members: new Set(), hosts: new Set() };
+    rooms.set(roomId, room);
+  } else if (room.token !== token) {
+    debug(`Rejected a client for ${roomId}: wrong token`);
+    socket.close(1008, 'Wrong token');
+    return;
+  }
+  const { members, hosts } = room;
+  members.add(socket);
+  if (isEventWindow) hosts.add(socket);
+  debug(`Client joined ${roomId} (${members.size} connected)`);
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    for (const peer of members) {
+      if (peer !== socket && peer.readyState === peer.OPEN) {
+        peer.send(data.toString());
+      }
+    }
+  });
+
+  socket.on('close', () => {
+    members.delete(socket);
+    hosts.delete(socket);
+    // A room reopened with a new token is no longer this one
+    if (members.size === 0 && rooms.get(roomId)?.members === members) rooms.delete(roomId);
+    debug(`Client left ${roomId} (${members.size} connected)`);
+  });
+});
+
+wss.on('listening', () => {
+  console.log(`[Relay] Listening on ws://0.0.0.0:${PORT}`);
+});
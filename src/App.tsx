@@ -3,6 +3,9 @@ import { AdminGuard } from './components/AdminGuard';
 import { EventsListScreen } from './components/EventsListScreen';
 import { EventSetupScreen } from './components/EventSetupScreen';
 import { EventRunScreen } from './components/EventRunScreen';
+import { PresenterScreen } from './components/PresenterScreen';
+import { RemoteScreen } from './components/RemoteScreen';
+import { RunReportScreen } from './components/RunReportScreen';
 import { EventLandingPage } from './components/EventLandingPage';
 import { LegacyRedirect } from './components/LegacyRedirect';
 import styles from './App.module.css';
@@ -36,6 +39,9 @@ function App() {
           <Route index element={<EventsListScreen />} />
           <Route path="events/:eventId" element={<EventSetupScreen />} />
           <Route path="events/:eventId/run" element={<EventRunScreen />} />
+          <Route path="events/:eventId/presenter" element={<PresenterScreen />} />
+          <Route path="events/:eventId/remote" element={<RemoteScreen />} />
+          <Route path="events/:eventId/report" element={<RunReportScreen />} />
         </Route>
 
         {/* Default: redirect root to admin */}
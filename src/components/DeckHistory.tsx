@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import type { DeckVersion } from '../types';
+import { getDeckVersions } from '../lib/db';
+import styles from './DeckHistory.module.css';
+
+interface DeckHistoryProps {
+  presId: string;
+  /** Number of the deck in use */
+  currentVersion: number;
+  /** Decks are frozen: the list is read-only */
+  frozen: boolean;
+  onRestore: (version: DeckVersion) => void;
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Earlier decks of a talk, newest first, each with a way back */
+export function DeckHistory({ presId, currentVersion, frozen, onRestore }: DeckHistoryProps) {
+  const [versions, setVersions] = useState<DeckVersion[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDeckVersions(presId).then((list) => {
+      if (!cancelled) setVersions(list.reverse());
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [presId, currentVersion]);
+
+  if (!versions) return null;
+
+  return (
+    <div className={styles.history}>
+      {versions.length === 0 ? (
+        <span className={styles.empty}>No earlier decks</span>
+      ) : versions.map((v) => (
+        <div key={v.id} className={styles.row}>
+          <span className={styles.version}>v{v.version}</span>
+          <span className={styles.fileName}>{v.fileName}</span>
+          <span className={styles.date}>replaced {timeFormat.format(v.replacedAt)}</span>
+          <button
+            className={styles.restoreButton}
+            onClick={() => onRestore(v)}
+            disabled={frozen}
+            title={frozen ? 'Decks are frozen' : `Use v${v.version} again instead of v${currentVersion}`}
+            type="button"
+          >
+            Restore
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
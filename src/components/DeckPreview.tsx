@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { EventPresentation, LoadedDeck, SlideFitSettings, TalkFormat } from '../types';
+import { loadCachedDeck } from '../lib/slideCache';
+import { PdfValidationError, RenderCancelledError } from '../lib/pdfRenderer';
+import { releaseDeck } from '../lib/slideResources';
+import { getSlideDurationsMs } from '../lib/talkFormat';
+import { SlideCanvas } from './SlideCanvas';
+import styles from './DeckPreview.module.css';
+
+interface DeckPreviewProps {
+  pres: EventPresentation;
+  format: TalkFormat;
+  /** The talk's fit, as it will be projected */
+  fit: SlideFitSettings;
+  /** 0-based */
+  startSlide?: number;
+  onClose: () => void;
+}
+
+/**
+ * Organizer's look at a deck before the show: step through it, or let it run
+ * with the talk's timing. Nothing is recorded or logged.
+ */
+export function DeckPreview({ pres, format, fit, startSlide = 0, onClose }: DeckPreviewProps) {
+  const [deck, setDeck] = useState<LoadedDeck | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(startSlide);
+  const [playing, setPlaying] = useState(false);
+
+  const durationsMs = useMemo(() => getSlideDurationsMs(format, pres.slideDurations), [format, pres.slideDurations]);
+  const slideCount = deck?.slides.length ?? 0;
+
+  // Renders (and caches) the deck if it isn't cached yet
+  useEffect(() => {
+    const controller = new AbortController();
+    let loaded: LoadedDeck | null = null;
+    loadCachedDeck(pres, format, setProgress, controller.signal)
+      .then((d) => {
+        loaded = d;
+        if (controller.signal.aborted) releaseDeck(d);
+        else setDeck(d);
+      })
+      .catch((err) => {
+        if (err instanceof RenderCancelledError) return;
+        setError(err instanceof PdfValidationError ? err.message : 'This deck could not be loaded.');
+      });
+    return () => {
+      controller.abort();
+      if (loaded) releaseDeck(loaded);
+    };
+  }, [pres, format]);
+
+  // Auto-play: advance after each slide's time, stop on the last one
+  useEffect(() => {
+    if (!playing || !deck) return;
+    const timer = setTimeout(() => {
+      if (index >= slideCount - 1) setPlaying(false);
+      else setIndex(index + 1);
+    }, durationsMs[index] ?? 0);
+    return () => clearTimeout(timer);
+  }, [playing, deck, index, slideCount, durationsMs]);
+
+  const step = useCallback((delta: number) => {
+    setIndex((i) => Math.max(0, Math.min(i + delta, slideCount - 1)));
+  }, [slideCount]);
+
+  const togglePlay = useCallback(() => {
+    // Playing from the last slide starts over
+    if (!playing && index >= slideCount - 1) setIndex(0);
+    setPlaying(!playing);
+  }, [playing, index, slideCount]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      // Keep the setup screen's inputs from seeing these
+      e.stopPropagation();
+      if (e.code === 'Escape') onClose();
+      else if (e.code === 'ArrowRight' || e.code === 'PageDown') step(1);
+      else if (e.code === 'ArrowLeft' || e.code === 'PageUp') step(-1);
+      else if (e.code === 'Space') togglePlay();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handler, true);
+    return () => window.removeEventListener('keydown', handler, true);
+  }, [onClose, step, togglePlay]);
+
+  const title = [pres.speakerName, pres.storyName].filter(Boolean).join(' — ') || pres.fileName;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>{title}</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div className={styles.stage}>
+          {deck ? (
+            <SlideCanvas
+              key={index}
+              slide={deck.slides[index]}
+              aspectRatio={deck.aspectRatio}
+              fit={fit}
+              playing={playing}
+              withAudio={pres.mediaAudio}
+            />
+          ) : (
+            <span className={styles.status}>
+              {error ?? (progress > 0 ? `Rendering slide ${progress} of ${format.slideCount}...` : 'Loading slides...')}
+            </span>
+          )}
+        </div>
+
+        <div className={styles.controls}>
+          <button className={styles.controlButton} onClick={() => step(-1)} disabled={!deck || index === 0} type="button">
+            Prev
+          </button>
+          <button className={styles.controlButton} onClick={togglePlay} disabled={!deck} type="button">
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <button className={styles.controlButton} onClick={() => step(1)} disabled={!deck || index >= slideCount - 1} type="button">
+            Next
+          </button>
+          <span className={styles.position}>
+            {deck ? `Slide ${index + 1} of ${slideCount} · ${Math.round((durationsMs[index] ?? 0) / 1000)}s` : ''}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
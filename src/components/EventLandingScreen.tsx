@@ -2,6 +2,7 @@ import { useCallback, useState, useEffect } from 'react';
 import type { ShareableEvent } from '../types';
 import { getLogoBlob } from '../lib/db';
 import { generateLogo } from '../lib/generateLogo';
+import { getEventFormat, formatDurationAdjective, formatDurationWords, formatTotalLabel } from '../lib/talkFormat';
 import styles from './EventLandingScreen.module.css';
 
 interface EventLandingScreenProps {
@@ -11,6 +12,9 @@ interface EventLandingScreenProps {
 
 export function EventLandingScreen({ event, logoUrl: externalLogoUrl }: EventLandingScreenProps) {
   const shortDate = formatShortDate(event.date);
+  const format = getEventFormat(event);
+  const durationAdjective = formatDurationAdjective(format);
+  const durationWords = formatDurationWords(format);
   const [resolvedLogoUrl, setResolvedLogoUrl] = useState<string | null>(null);
 
   useEffect(() => {
@@ -71,7 +75,7 @@ export function EventLandingScreen({ event, logoUrl: externalLogoUrl }: EventLan
               See <span className={styles.accent}>2035</span> before it arrives.
             </h1>
             <p className={styles.subhead}>
-              Enter an open window into 2035 — a world where AI and robotics have reshaped how we work, learn, create, and live. Not a prediction. Not a trend report. <span className={styles.accent}>A vision.</span> Told in five-minute stories by the founders, artists, scientists, and builders who are making it real.
+              Enter an open window into 2035 — a world where AI and robotics have reshaped how we work, learn, create, and live. Not a prediction. Not a trend report. <span className={styles.accent}>A vision.</span> Told in {durationAdjective} stories by the founders, artists, scientists, and builders who are making it real.
             </p>
             <div className={styles.ctaRow}>
               {event.link && (
@@ -123,14 +127,14 @@ export function EventLandingScreen({ event, logoUrl: externalLogoUrl }: EventLan
             <span className={styles.valueEmoji}>&#x1F52D;</span>
             <h3 className={styles.valueTitle}>Clarity</h3>
             <p className={styles.valueDesc}>
-              Breakthrough ideas distilled into 5-minute stories you can act on Monday morning.
+              Breakthrough ideas distilled into {durationAdjective} stories you can act on Monday morning.
             </p>
           </div>
           <div className={styles.valueCard}>
             <span className={styles.valueEmoji}>&#x26A1;</span>
             <h3 className={styles.valueTitle}>Energy</h3>
             <p className={styles.valueDesc}>
-              Relentlessly paced. Every speaker gets exactly 5 minutes to change how you see the future.
+              Relentlessly paced. Every speaker gets exactly {durationWords} to change how you see the future.
             </p>
           </div>
           <div className={styles.valueCard}>
@@ -147,9 +151,9 @@ export function EventLandingScreen({ event, logoUrl: externalLogoUrl }: EventLan
       <section id="how-it-works" className={styles.howSection}>
         <h2 className={styles.sectionTitle}>The format</h2>
         <p className={styles.howLine}>
-          Each speaker gets 5 minutes to show you their vision of 2035 — <strong>20 AI-generated images, auto-advancing every 15 seconds.</strong> No rambling, no filler. Just the story.
+          Each speaker gets {durationWords} to show you their vision of 2035 — <strong>{format.slideCount} AI-generated images, auto-advancing every {format.slideSeconds} seconds.</strong> No rambling, no filler. Just the story.
         </p>
-        <span className={styles.formatBadge}>5 min</span>
+        <span className={styles.formatBadge}>{formatTotalLabel(format)}</span>
         <p className={styles.howLine}>
           Think less slideshow, more <strong>sci-fi short film</strong>. Our speakers craft their futures with AI-generated visuals, audio, and narrative — not AI slop, but something closer to an episode of your favorite show. Optimistic or dystopian, you decide what to believe.
         </p>
@@ -1,22 +1,52 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import type { IgniteEvent, EventPresentation, LoadedDeck } from '../types';
-import { getEvent, getEventPresentations, getLogoBlob, getPdfBlob, putRecordingBlob, getRecordingBlob, deleteRecordingBlob } from '../lib/db';
-import { renderPdfFromBlob } from '../lib/pdfRenderer';
+import type { IgniteEvent, EventPresentation, LoadedDeck, TalkCheckpoint } from '../types';
+import type { RecordingCamera } from '../hooks/useMediaRecorder';
+import {
+  getEvent, putEvent, getEventPresentations, getLogoBlob, putRecordingBlob, getRecordingBlob, deleteRecordingBlob,
+  addRunLogEntry, getRunCheckpoint, putRunCheckpoint, deleteRunCheckpoint, getRecordingChunks, deleteRecordingChunks,
+} from '../lib/db';
+import { PdfValidationError, RenderCancelledError } from '../lib/pdfRenderer';
+import { releaseDeck } from '../lib/slideResources';
+import { loadCachedDeck } from '../lib/slideCache';
+import { getEventFormat, formatClock } from '../lib/talkFormat';
+import { getAutopilotNext, getIntermissionSeconds } from '../lib/runOfShow';
+import type { RunLogEvent } from '../lib/runLog';
+import { createRunLogId } from '../lib/runLog';
+import { RUN_HEARTBEAT_MS, assembleRecording, getNextRecordingPart } from '../lib/recordingRecovery';
+import { getAudioCueSettings } from '../lib/audioCues';
+import { getSlideFit } from '../lib/slideFit';
+import { getRecordingQuality } from '../lib/recordingQuality';
+import { CAMERA_CONSTRAINTS, getTalkCamera } from '../lib/cameraPip';
+import { loadAudioInput, openMicrophone } from '../lib/audioInput';
 import { convertWebmToMp4 } from '../lib/convertToMp4';
 import { generateLogo } from '../lib/generateLogo';
 import { useFullscreen } from '../hooks/useFullscreen';
+import { useDeckPreloader } from '../hooks/useDeckPreloader';
+import { useShowChannel } from '../hooks/useShowChannel';
+import type { LineupStatus } from '../lib/showChannel';
+import { getOrCreateRelayToken, getStoredRelayUrl, isRelayBlocked, setStoredRelayUrl } from '../lib/showChannel';
 import { PresentationScreen } from './PresentationScreen';
 import { LogoSplash } from './LogoSplash';
+import { IntermissionScreen } from './IntermissionScreen';
 import styles from './EventRunScreen.module.css';
 
-type RunState = 'loading' | 'logo-splash' | 'rendering' | 'presenting';
+type RunState = 'loading' | 'logo-splash' | 'intermission' | 'rendering' | 'presenting';
+
+// A checkpoint older than this is from an earlier show, not a crash
+const CHECKPOINT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+const PRELOAD_DELAY_MS = 3000;
 
 export function EventRunScreen() {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
   const containerRef = useRef<HTMLDivElement>(null);
   const { exitFullscreen } = useFullscreen();
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const { preload: preloadDeck, take: takePreloadedDeck, release: releasePreload } = useDeckPreloader();
+
+  // Leaving mid-render stops the workers too
+  useEffect(() => () => renderAbortRef.current?.abort(), []);
 
   const [runState, setRunState] = useState<RunState>('loading');
   const [event, setEvent] = useState<IgniteEvent | null>(null);
@@ -27,11 +57,24 @@ export function EventRunScreen() {
   const [logoUrl, setLogoUrl] = useState<string | null>(null);
   const [renderProgress, setRenderProgress] = useState(0);
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+  const [recordingCamera, setRecordingCamera] = useState<RecordingCamera | null>(null);
   const [recordedIds, setRecordedIds] = useState<Set<string>>(new Set());
   const [recordingUrls, setRecordingUrls] = useState<Map<string, string>>(new Map());
   const [recordingTypes, setRecordingTypes] = useState<Map<string, string>>(new Map());
   const [confirmPresId, setConfirmPresId] = useState<string | null>(null);
   const [convertingMp4, setConvertingMp4] = useState<string | null>(null);
+  const [relayUrl, setRelayUrl] = useState<string | null>(() => getStoredRelayUrl());
+  const [relayToken] = useState(() => (eventId ? getOrCreateRelayToken(eventId) : null));
+  const [remoteDialogOpen, setRemoteDialogOpen] = useState(false);
+  const [autopilot, setAutopilot] = useState(false);
+  const [skippedIds, setSkippedIds] = useState<Set<string>>(new Set());
+  const [recoveryTalk, setRecoveryTalk] = useState<TalkCheckpoint | null>(null);
+  const [resumeAtMs, setResumeAtMs] = useState<number | null>(null);
+  const [recordingPart, setRecordingPart] = useState(0);
+  // A resumed talk's earlier parts, if setup already recovered them into its recording
+  const [recoveredRecording, setRecoveredRecording] = useState<Blob | null>(null);
+  const talkCheckpointRef = useRef<TalkCheckpoint | null>(null);
+  const format = getEventFormat(event);
 
   // Load event data on mount
   useEffect(() => {
@@ -41,10 +84,20 @@ export function EventRunScreen() {
       const ev = await getEvent(eventId);
       const pres = await getEventPresentations(eventId);
       const logoBlob = await getLogoBlob(eventId);
+      const checkpoint = await getRunCheckpoint(eventId);
 
       if (cancelled) return;
       setEvent(ev ?? null);
       setPresentations(pres);
+
+      // Pick up after a crash or reload: played talks, and the talk that was on stage
+      if (checkpoint && Date.now() - checkpoint.updatedAt < CHECKPOINT_MAX_AGE_MS) {
+        const presIds = new Set(pres.map((p) => p.id));
+        setPlayedIds(new Set(checkpoint.playedIds.filter((id) => presIds.has(id))));
+        if (checkpoint.talk && presIds.has(checkpoint.talk.presId)) {
+          setRecoveryTalk(checkpoint.talk);
+        }
+      }
       if (logoBlob) {
         setLogoUrl(URL.createObjectURL(logoBlob));
       } else if (ev) {
@@ -99,21 +152,69 @@ export function EventRunScreen() {
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Actual play logic (called directly or after confirm)
-  const startPlay = useCallback(async (presId: string) => {
+  // Append to the run log; a failed write must never disturb the show
+  const logRun = useCallback((presId: string, event: RunLogEvent) => {
+    if (!eventId) return;
+    const pres = presentations.find((p) => p.id === presId);
+    addRunLogEntry({
+      ...event,
+      id: createRunLogId(),
+      eventId,
+      presId,
+      storyName: pres?.storyName ?? '',
+      speakerName: pres?.speakerName ?? '',
+      at: Date.now(),
+    }).catch((err) => console.warn('[RunLog] Write failed:', err));
+  }, [eventId, presentations]);
+
+  const saveCheckpoint = useCallback((talk: TalkCheckpoint | null, played: Set<string> = playedIds) => {
+    if (!eventId) return;
+    talkCheckpointRef.current = talk;
+    putRunCheckpoint({ eventId, playedIds: [...played], talk, updatedAt: Date.now() })
+      .catch((err) => console.warn('[Recovery] Checkpoint failed:', err));
+  }, [eventId, playedIds]);
+
+  // Actual play logic (called directly or after confirm); `resumeFrom` continues a talk cut short by a reload
+  const startPlay = useCallback(async (presId: string, resumeFrom?: TalkCheckpoint) => {
     const pres = presentations.find((p) => p.id === presId);
     if (!pres) return;
     setCurrentPresId(presId);
     setConfirmPresId(null);
-    setRunState('rendering');
-    setRenderProgress(0);
+    // The show has started: no more deck swaps until the organizer unfreezes
+    if (event && !event.decksFrozen) {
+      const frozen = { ...event, decksFrozen: true };
+      setEvent(frozen);
+      putEvent(frozen).catch((err) => console.warn('[Run] Could not freeze decks:', err));
+    }
+    // The next talk was loaded while the previous one played; any other pick drops it
+    const preloaded = takePreloadedDeck(presId);
+    releasePreload();
+    if (!preloaded) {
+      setRunState('rendering');
+      setRenderProgress(0);
+    }
+    setResumeAtMs(resumeFrom?.talkElapsedMs ?? null);
+    renderAbortRef.current?.abort();
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
 
+    // If recording is enabled, request mic permission NOW (before fullscreen/presenting)
+    let micStream: MediaStream | null = null;
+    let camera: RecordingCamera | null = null;
     try {
-      // If recording is enabled, request mic permission NOW (before fullscreen/presenting)
-      let micStream: MediaStream | null = null;
-      if (event?.recordEnabled) {
+      if (event?.recordEnabled && resumeFrom) {
+        // Record a new part; it is joined to the streamed chunks of the earlier parts at the end
+        const chunks = await getRecordingChunks(presId);
+        setRecordingPart(getNextRecordingPart(chunks));
+        // No chunks left but a recording: setup put the earlier parts together meanwhile
+        setRecoveredRecording(chunks.length === 0 ? (await getRecordingBlob(presId)) ?? null : null);
+      } else if (event?.recordEnabled) {
+        setRecordingPart(0);
+        setRecoveredRecording(null);
+        await deleteRecordingChunks(presId);
         // Delete old recording first — new one will replace it
         if (recordedIds.has(presId)) {
+          logRun(presId, { kind: 're-record' });
           await deleteRecordingBlob(presId);
           setRecordedIds((prev) => {
             const next = new Set(prev);
@@ -133,25 +234,64 @@ export function EventRunScreen() {
             return next;
           });
         }
+      }
+      if (event?.recordEnabled) {
         try {
-          micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          micStream = await openMicrophone(loadAudioInput().deviceId);
         } catch {
           // User denied mic — will record video-only
         }
         setAudioStream(micStream);
+
+        // Camera too, unless the event doesn't use it or the speaker opted out
+        const pip = getTalkCamera(event, pres);
+        if (pip) {
+          try {
+            camera = { stream: await navigator.mediaDevices.getUserMedia({ video: CAMERA_CONSTRAINTS }), pip };
+          } catch {
+            // Denied or no camera — record without the tile
+          }
+        }
+        setRecordingCamera(camera);
       }
 
-      const blob = await getPdfBlob(pres.id);
-      if (!blob) throw new Error('PDF not found');
-      const deck = await renderPdfFromBlob(blob, pres.fileName, (page) => {
+      // Otherwise normally a cache read; only renders if the deck wasn't pre-rendered
+      const deck = preloaded ?? await loadCachedDeck(pres, format, (page) => {
         setRenderProgress(page);
-      });
+      }, controller.signal);
       setCurrentDeck(deck);
       setRunState('presenting');
-    } catch {
+    } catch (err) {
+      // The talk won't start, so nothing will record from the mic or camera
+      micStream?.getTracks().forEach((t) => t.stop());
+      camera?.stream.getTracks().forEach((t) => t.stop());
+      // Cancelled: the cancel handler already went back to the lineup
+      if (err instanceof RenderCancelledError) return;
+      setAudioStream(null);
+      setRecordingCamera(null);
+      if (err instanceof PdfValidationError) {
+        alert(err.message);
+      }
       setRunState('logo-splash');
     }
-  }, [presentations, event?.recordEnabled, recordedIds]);
+  }, [presentations, event, recordedIds, format, logRun, takePreloadedDeck, releasePreload]);
+
+  // Mic and camera opened for a talk that never reached the recorder
+  const releaseCaptureStreams = useCallback(() => {
+    audioStream?.getTracks().forEach((t) => t.stop());
+    recordingCamera?.stream.getTracks().forEach((t) => t.stop());
+    setAudioStream(null);
+    setRecordingCamera(null);
+  }, [audioStream, recordingCamera]);
+
+  const handleCancelRender = useCallback(() => {
+    renderAbortRef.current?.abort();
+    renderAbortRef.current = null;
+    releaseCaptureStreams();
+    setCurrentPresId(null);
+    setAutopilot(false);
+    setRunState('logo-splash');
+  }, [releaseCaptureStreams]);
 
   // Entry point: check for existing recording before playing
   const handlePlay = useCallback((presId: string) => {
@@ -163,23 +303,65 @@ export function EventRunScreen() {
     }
   }, [event?.recordEnabled, recordedIds, startPlay]);
 
+  const storeRecording = useCallback(async (presId: string, blob: Blob) => {
+    await putRecordingBlob(presId, blob);
+    await deleteRecordingChunks(presId);
+    setRecordedIds((prev) => new Set(prev).add(presId));
+    const url = URL.createObjectURL(blob);
+    setRecordingUrls((prev) => {
+      const oldUrl = prev.get(presId);
+      if (oldUrl) URL.revokeObjectURL(oldUrl);
+      const next = new Map(prev);
+      next.set(presId, url);
+      return next;
+    });
+    setRecordingTypes((prev) => {
+      const next = new Map(prev);
+      next.set(presId, blob.type || 'video/webm');
+      return next;
+    });
+  }, []);
+
   const handleRecordingComplete = useCallback(async (blob: Blob) => {
     if (currentPresId) {
-      await putRecordingBlob(currentPresId, blob);
-      setRecordedIds((prev) => new Set(prev).add(currentPresId));
-      const url = URL.createObjectURL(blob);
-      setRecordingUrls((prev) => {
-        const next = new Map(prev);
-        next.set(currentPresId, url);
-        return next;
-      });
-      setRecordingTypes((prev) => {
-        const next = new Map(prev);
-        next.set(currentPresId, blob.type || 'video/webm');
-        return next;
-      });
+      // A resumed talk's earlier parts only exist as streamed chunks
+      const full = recordingPart > 0 || recoveredRecording
+        ? await assembleRecording(currentPresId, { part: recordingPart, blob }, recoveredRecording ?? undefined)
+        : blob;
+      setRecoveredRecording(null);
+      await storeRecording(currentPresId, full ?? blob);
     }
-  }, [currentPresId]);
+  }, [currentPresId, recordingPart, recoveredRecording, storeRecording]);
+
+  const handleCheckpoint = useCallback((progress: { currentSlide: number; talkElapsedMs: number }) => {
+    if (currentPresId) saveCheckpoint({ presId: currentPresId, ...progress });
+  }, [currentPresId, saveCheckpoint]);
+
+  // The talk's checkpoint only moves with its timer; keep it fresh through pauses
+  // so setup knows this window still owns the talk's recording
+  useEffect(() => {
+    if (runState !== 'presenting') return;
+    const timer = setInterval(() => {
+      const talk = talkCheckpointRef.current;
+      if (talk) saveCheckpoint(talk);
+    }, RUN_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [runState, saveCheckpoint]);
+
+  const handleResumeRecovery = useCallback(() => {
+    if (!recoveryTalk) return;
+    setRecoveryTalk(null);
+    startPlay(recoveryTalk.presId, recoveryTalk);
+  }, [recoveryTalk, startPlay]);
+
+  // Not resuming: keep whatever was recorded before the reload, then forget the talk
+  const handleDiscardRecovery = useCallback(async () => {
+    if (!recoveryTalk) return;
+    setRecoveryTalk(null);
+    saveCheckpoint(null);
+    const salvaged = await assembleRecording(recoveryTalk.presId);
+    if (salvaged) await storeRecording(recoveryTalk.presId, salvaged);
+  }, [recoveryTalk, saveCheckpoint, storeRecording]);
 
   const handleDeleteRecording = useCallback(async (presId: string) => {
     await deleteRecordingBlob(presId);
@@ -255,38 +437,167 @@ export function EventRunScreen() {
   }, [recordingUrls, recordingTypes]);
 
   const handlePresentationFinish = useCallback(() => {
-    // Revoke blob URLs from finished deck
+    // Free the finished deck's URLs and bitmaps
     if (currentDeck) {
-      currentDeck.slides.forEach((s) => URL.revokeObjectURL(s.objectUrl));
+      releaseDeck(currentDeck);
     }
     setCurrentDeck(null);
 
     // Mark as played
-    if (currentPresId) {
-      setPlayedIds((prev) => new Set(prev).add(currentPresId));
-    }
+    const played = currentPresId ? new Set(playedIds).add(currentPresId) : playedIds;
+    setPlayedIds(played);
     setCurrentPresId(null);
-    setRunState('logo-splash');
-  }, [currentDeck, currentPresId]);
+    setResumeAtMs(null);
+    saveCheckpoint(null, played);
+
+    // Autopilot rolls on to the next talk via an intermission
+    if (autopilot && getAutopilotNext(presentations, played, skippedIds)) {
+      setRunState('intermission');
+    } else {
+      setAutopilot(false);
+      setRunState('logo-splash');
+    }
+  }, [currentDeck, currentPresId, playedIds, autopilot, presentations, skippedIds, saveCheckpoint]);
 
   // Called when user hits Stop during a presentation — go back to picker
   const handleStop = useCallback(() => {
     if (currentDeck) {
-      currentDeck.slides.forEach((s) => URL.revokeObjectURL(s.objectUrl));
+      releaseDeck(currentDeck);
     }
     setCurrentDeck(null);
+    // Stopped before the talk started, the recorder never took the mic and camera
+    releaseCaptureStreams();
     setCurrentPresId(null);
+    setResumeAtMs(null);
+    saveCheckpoint(null);
+    releasePreload();
+    // The operator took over — don't roll on to the next talk
+    setAutopilot(false);
     setRunState('logo-splash');
-  }, [currentDeck]);
+  }, [currentDeck, releaseCaptureStreams, saveCheckpoint, releasePreload]);
 
   const handleExit = useCallback(() => {
     if (currentDeck) {
-      currentDeck.slides.forEach((s) => URL.revokeObjectURL(s.objectUrl));
+      releaseDeck(currentDeck);
     }
+    releaseCaptureStreams();
+    // Leaving on purpose: nothing to recover next time
+    talkCheckpointRef.current = null;
+    if (eventId) deleteRunCheckpoint(eventId).catch(() => {});
     exitFullscreen().then(() => navigate(`/admin/events/${eventId}`));
-  }, [currentDeck, exitFullscreen, navigate, eventId]);
+  }, [currentDeck, releaseCaptureStreams, exitFullscreen, navigate, eventId]);
+
+  // Next unplayed talk in lineup order (minus talks skipped on autopilot)
+  const nextUp = getAutopilotNext(presentations, playedIds, autopilot ? skippedIds : new Set());
+  // While a talk plays, load the one after it so it opens without a rendering screen
+  const preloadTarget = runState === 'presenting' && currentPresId
+    ? getAutopilotNext(presentations, new Set(playedIds).add(currentPresId), autopilot ? skippedIds : new Set())
+    : null;
+  useEffect(() => {
+    if (!preloadTarget) return;
+    // Let the talk's own start (fullscreen, recorder) settle first
+    const timer = setTimeout(() => preloadDeck(preloadTarget, format), PRELOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [preloadTarget, format, preloadDeck]);
+
+  const remainingAfterNext = nextUp
+    ? presentations.filter((p) => p.id !== nextUp.id && !playedIds.has(p.id) && !skippedIds.has(p.id)).length
+    : 0;
+
+  const handleToggleAutopilot = useCallback(() => {
+    if (autopilot) {
+      setAutopilot(false);
+      return;
+    }
+    setSkippedIds(new Set());
+    if (!getAutopilotNext(presentations, playedIds, new Set())) return;
+    setAutopilot(true);
+    setRunState('intermission');
+  }, [autopilot, presentations, playedIds]);
+
+  const handleIntermissionComplete = useCallback(() => {
+    if (!nextUp) {
+      setAutopilot(false);
+      setRunState('logo-splash');
+      return;
+    }
+    // Back on the lineup first, so a re-record confirmation has somewhere to show
+    setRunState('logo-splash');
+    handlePlay(nextUp.id);
+  }, [nextUp, handlePlay]);
+
+  const handleSkip = useCallback(() => {
+    if (!nextUp) return;
+    logRun(nextUp.id, { kind: 'skip' });
+    const skipped = new Set(skippedIds).add(nextUp.id);
+    setSkippedIds(skipped);
+    if (!getAutopilotNext(presentations, playedIds, skipped)) {
+      setAutopilot(false);
+      setRunState('logo-splash');
+    }
+  }, [nextUp, skippedIds, presentations, playedIds, logRun]);
+
+  const handleTalkLog = useCallback((event: RunLogEvent) => {
+    if (currentPresId) logRun(currentPresId, event);
+  }, [currentPresId, logRun]);
+
+  const handleHold = useCallback(() => {
+    setAutopilot(false);
+    setRunState('logo-splash');
+  }, []);
+
+  const lineup: LineupStatus = useMemo(() => ({
+    eventName: event?.name ?? '',
+    playedCount: playedIds.size,
+    totalCount: presentations.length,
+    nextUp: nextUp && {
+      presId: nextUp.id,
+      storyName: nextUp.storyName,
+      speakerName: nextUp.speakerName,
+    },
+  }), [event?.name, playedIds.size, presentations.length, nextUp]);
+
+  // Between talks there is nothing to mirror; tell presenter and remote windows so
+  const sendShowMessage = useShowChannel(eventId, (message, reply) => {
+    if (message.type === 'request-status') {
+      reply({ type: 'lineup', lineup });
+      if (runState !== 'presenting') reply({ type: 'status', talk: null });
+    } else if (message.type === 'command' && message.command === 'play-next') {
+      if (runState === 'intermission') handleIntermissionComplete();
+      else if (runState === 'logo-splash' && !confirmPresId && !recoveryTalk && nextUp) handlePlay(nextUp.id);
+    }
+  }, relayUrl, relayToken);
+
+  useEffect(() => {
+    if (runState !== 'presenting') {
+      sendShowMessage({ type: 'status', talk: null });
+    }
+  }, [runState, sendShowMessage]);
+
+  useEffect(() => {
+    sendShowMessage({ type: 'lineup', lineup });
+  }, [lineup, sendShowMessage]);
+
+  const handleRelayUrlChange = useCallback((value: string) => {
+    const url = value.trim() || null;
+    setRelayUrl(url);
+    setStoredRelayUrl(url);
+  }, []);
+
+  const remoteUrl = `${window.location.origin}${window.location.pathname}#/admin/events/${eventId}/remote${
+    relayUrl && relayToken ? `?relay=${encodeURIComponent(relayUrl)}&token=${relayToken}` : ''
+  }`;
+
+  const handleOpenPresenter = useCallback(() => {
+    window.open(
+      `${window.location.pathname}#/admin/events/${eventId}/presenter`,
+      `presenter-${eventId}`,
+      'popup,width=1100,height=720',
+    );
+  }, [eventId]);
 
   const eventName = event?.name ?? '';
+  const audioCues = useMemo(() => getAudioCueSettings(event), [event]);
 
   return (
     <div ref={containerRef} className={styles.container}>
@@ -297,9 +608,10 @@ export function EventRunScreen() {
       {runState === 'rendering' && (
         <div className={styles.loadingScreen}>
           <div className={styles.renderBar}>
-            <div className={styles.renderFill} style={{ width: `${(renderProgress / 20) * 100}%` }} />
+            <div className={styles.renderFill} style={{ width: `${(renderProgress / format.slideCount) * 100}%` }} />
           </div>
-          <p>Rendering slide {renderProgress} of 20...</p>
+          <p>{renderProgress > 0 ? `Rendering slide ${renderProgress} of ${format.slideCount}...` : 'Loading slides...'}</p>
+          <button className={styles.confirmCancel} onClick={handleCancelRender}>Cancel</button>
         </div>
       )}
 
@@ -319,7 +631,71 @@ export function EventRunScreen() {
             onDownloadRecording={handleDownloadRecording}
             onDownloadMp4={handleDownloadMp4}
             onExit={handleExit}
+            onOpenPresenter={handleOpenPresenter}
+            onOpenRemote={() => setRemoteDialogOpen(true)}
+            autopilot={autopilot}
+            onToggleAutopilot={handleToggleAutopilot}
+            dialogOpen={remoteDialogOpen || !!recoveryTalk || !!confirmPresId}
           />
+          {remoteDialogOpen && (
+            <div className={styles.confirmOverlay}>
+              <div className={styles.confirmDialog}>
+                <p className={styles.confirmText}>
+                  Run <code>npm run relay</code> on this laptop, enter its address below, then open the remote link on a phone on the same network.
+                </p>
+                <input
+                  className={styles.remoteInput}
+                  type="url"
+                  defaultValue={relayUrl ?? ''}
+                  onBlur={(e) => handleRelayUrlChange(e.target.value)}
+                  placeholder="ws://192.168.1.10:8787"
+                />
+                {isRelayBlocked(relayUrl) && (
+                  <p className={styles.remoteWarning}>
+                    This page is on https, so the browser blocks a ws:// relay. Open the app over http on this laptop, or serve the relay over wss://.
+                  </p>
+                )}
+                <p className={styles.remoteLink}>{remoteUrl}</p>
+                <div className={styles.confirmButtons}>
+                  <button
+                    className={styles.confirmCancel}
+                    onClick={() => navigator.clipboard?.writeText(remoteUrl)}
+                  >
+                    Copy link
+                  </button>
+                  <button
+                    className={styles.confirmProceed}
+                    onClick={() => setRemoteDialogOpen(false)}
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+          {recoveryTalk && (() => {
+            const pres = presentations.find((p) => p.id === recoveryTalk.presId);
+            return (
+              <div className={styles.confirmOverlay}>
+                <div className={styles.confirmDialog}>
+                  <p className={styles.confirmText}>
+                    <strong>{pres?.storyName || 'A talk'}</strong>
+                    {pres?.speakerName && <> by {pres.speakerName}</>} was cut off at slide {recoveryTalk.currentSlide + 1}
+                    {' '}({formatClock(recoveryTalk.talkElapsedMs)} in). Resume where it stopped?
+                    {event?.recordEnabled && ' The recording so far is kept.'}
+                  </p>
+                  <div className={styles.confirmButtons}>
+                    <button className={styles.confirmCancel} onClick={handleDiscardRecovery}>
+                      Discard
+                    </button>
+                    <button className={styles.confirmProceed} onClick={handleResumeRecovery}>
+                      Resume at slide {recoveryTalk.currentSlide + 1}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })()}
           {confirmPresId && (
             <div className={styles.confirmOverlay}>
               <div className={styles.confirmDialog}>
@@ -346,11 +722,27 @@ export function EventRunScreen() {
         </>
       )}
 
+      {runState === 'intermission' && nextUp && (
+        <IntermissionScreen
+          key={nextUp.id}
+          logoUrl={logoUrl}
+          eventName={eventName}
+          nextUp={nextUp}
+          remainingAfter={remainingAfterNext}
+          durationMs={getIntermissionSeconds(event) * 1000}
+          onComplete={handleIntermissionComplete}
+          onSkip={handleSkip}
+          onHold={handleHold}
+        />
+      )}
+
       {runState === 'presenting' && currentDeck && (() => {
         const currentPres = presentations.find((p) => p.id === currentPresId);
         return (
           <PresentationScreen
             deck={currentDeck}
+            format={format}
+            slideDurations={currentPres?.slideDurations}
             eventName={eventName}
             storyName={currentPres?.storyName ?? ''}
             speakerName={currentPres?.speakerName ?? ''}
@@ -360,6 +752,19 @@ export function EventRunScreen() {
             recordingEnabled={event?.recordEnabled ?? false}
             onRecordingComplete={handleRecordingComplete}
             audioStream={audioStream}
+            camera={recordingCamera}
+            eventId={eventId}
+            presId={currentPresId ?? undefined}
+            relayUrl={relayUrl}
+            relayToken={relayToken}
+            onLog={handleTalkLog}
+            resumeAtMs={resumeAtMs ?? undefined}
+            recordingPersist={currentPresId && event?.recordEnabled ? { presId: currentPresId, part: recordingPart } : undefined}
+            onCheckpoint={handleCheckpoint}
+            audioCues={audioCues}
+            mediaAudio={currentPres?.mediaAudio}
+            slideFit={getSlideFit(event, currentPres)}
+            recordingQuality={getRecordingQuality(event)}
           />
         );
       })()}
@@ -1,21 +1,73 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useDropzone } from 'react-dropzone';
-import type { IgniteEvent, EventPresentation, StoryTone, ShareableEvent } from '../types';
+import type {
+  IgniteEvent, EventPresentation, StoryTone, ShareableEvent, TalkFormat, TalkFormatPreset, SlideDurations, AudioCueSettings,
+  SlideCountFix, SlideFitMode, SlideFitSettings, DeckFields, DeckVersion, CameraPipSettings, CameraCorner, CameraShape,
+  RecordingPreset, RecordingCodec, RecordingQuality,
+} from '../types';
 import {
   getEvent, putEvent,
   getEventPresentations, putPresentation, deletePresentation, reorderPresentations,
   getLogoBlob, putLogoBlob, deleteLogoBlob,
-  putPdfBlob,
   getRecordingBlob, deleteRecordingBlob,
 } from '../lib/db';
-import { loadAndRenderPdf, PdfValidationError } from '../lib/pdfRenderer';
+import { renderPdfSlides, getPdfPageCount, PdfValidationError, PdfPasswordError, RenderCancelledError } from '../lib/pdfRenderer';
+import { cacheRenderedSlides, getCachedPresIds, preRenderDecks } from '../lib/slideCache';
+import { collectDeckImages, renderImageSlides } from '../lib/imageDeck';
+import { analyzeDeck, recheckSlideCount, slideCountIssue } from '../lib/deckQuality';
+import { archiveCurrentDeck, getDeckPageCount, restoreDeckVersion, storeDeckFiles } from '../lib/deckVersions';
 import { convertWebmToMp4 } from '../lib/convertToMp4';
+import {
+  type OrphanedRecording, discardOrphanedRecording, findOrphanedRecordings, recoverRecording,
+} from '../lib/recordingRecovery';
+import {
+  TALK_FORMAT_PRESETS, MIN_SLIDES, MAX_SLIDES, MIN_SLIDE_SECONDS, MAX_SLIDE_SECONDS,
+  getEventFormat, formatFromPreset, formatTotalLabel, formatClock, getTotalDurationMs, validateSlideDurations,
+} from '../lib/talkFormat';
+import { MIN_INTERMISSION_SECONDS, MAX_INTERMISSION_SECONDS, getIntermissionSeconds } from '../lib/runOfShow';
+import { MIN_WARNING_SECONDS, MAX_WARNING_SECONDS, getAudioCueSettings, createAudioCuePlayer } from '../lib/audioCues';
+import { SLIDE_FIT_LABELS, getSlideFit } from '../lib/slideFit';
+import {
+  CAMERA_CORNER_LABELS, CAMERA_SHAPE_LABELS, MIN_CAMERA_SIZE, MAX_CAMERA_SIZE, getCameraPip,
+} from '../lib/cameraPip';
+import {
+  RECORDING_PRESETS, RECORDING_PRESET_LABELS, RECORDING_CODEC_LABELS, RECORDING_SIZES, RECORDING_FRAME_RATES,
+  RECORDING_AUDIO_BITRATES, MIN_VIDEO_BITRATE, MAX_VIDEO_BITRATE,
+  getRecordingQuality, estimateRecordingBytes, formatFileSize,
+} from '../lib/recordingQuality';
 import { generateLogo } from '../lib/generateLogo';
 import { buildSlug } from '../lib/shareUrl';
 import { publishEvent } from '../lib/publishEvent';
+import { SlideTimingEditor } from './SlideTimingEditor';
+import { SlideThumbnailStrip } from './SlideThumbnailStrip';
+import { DeckPreview } from './DeckPreview';
+import { DeckHistory } from './DeckHistory';
 import styles from './EventSetupScreen.module.css';
 
+const MAX_PDF_SIZE = 30 * 1024 * 1024;
+const MAX_ZIP_SIZE = 100 * 1024 * 1024;
+
+/** A dropped deck with the wrong page count, waiting for the speaker to pick a fix */
+interface PendingDeck {
+  files: File[];
+  /** Slide files for an image deck; null for a PDF */
+  images: Blob[] | null;
+  count: number;
+  /** Talk whose deck this replaces; a new talk when unset */
+  replaceId?: string;
+  /** Opens an encrypted PDF */
+  password?: string;
+}
+
+/** An encrypted PDF waiting for its password */
+interface LockedDeck {
+  file: File;
+  replaceId?: string;
+  /** The last password tried was wrong */
+  incorrect: boolean;
+}
+
 export function EventSetupScreen() {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
@@ -26,9 +78,21 @@ export function EventSetupScreen() {
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [pdfLoading, setPdfLoading] = useState(false);
   const [pdfProgress, setPdfProgress] = useState(0);
+  const [pendingDeck, setPendingDeck] = useState<PendingDeck | null>(null);
+  const [lockedDeck, setLockedDeck] = useState<LockedDeck | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [preview, setPreview] = useState<{ presId: string; slide: number } | null>(null);
+  const [historyPresId, setHistoryPresId] = useState<string | null>(null);
   const [recordingUrls, setRecordingUrls] = useState<Map<string, string>>(new Map());
   const [convertingMp4, setConvertingMp4] = useState<string | null>(null);
+  const [orphans, setOrphans] = useState<Map<string, OrphanedRecording>>(new Map());
+  const [recoveringId, setRecoveringId] = useState<string | null>(null);
+  const [timingPresId, setTimingPresId] = useState<string | null>(null);
+  const [cachedIds, setCachedIds] = useState<Set<string>>(new Set());
+  const [preRendering, setPreRendering] = useState<{ done: number; total: number } | null>(null);
+  const [preRenderFailed, setPreRenderFailed] = useState<string[]>([]);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const recheckTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
   // Load event data
   useEffect(() => {
@@ -53,6 +117,9 @@ export function EventSetupScreen() {
       const pres = await getEventPresentations(eventId);
       if (!cancelled) setPresentations(pres);
 
+      const cached = await getCachedPresIds();
+      if (!cancelled) setCachedIds(cached);
+
       const logoBlob = await getLogoBlob(eventId);
       if (!cancelled && logoBlob) {
         setLogoUrl(URL.createObjectURL(logoBlob));
@@ -68,6 +135,10 @@ export function EventSetupScreen() {
         }
       }
       if (!cancelled) setRecordingUrls(recUrls);
+
+      // Recordings cut short by a crash, still in streamed chunks
+      const found = await findOrphanedRecordings(eventId, pres.map((p) => p.id));
+      if (!cancelled) setOrphans(new Map(found.map((o) => [o.presId, o])));
     })();
     return () => {
       cancelled = true;
@@ -104,7 +175,114 @@ export function EventSetupScreen() {
     });
   }, []);
 
-  const updateField = useCallback((field: keyof IgniteEvent, value: string) => {
+  // Check every deck's slide count against a new format, so a talk that no
+  // longer fits is flagged here rather than failing on show night
+  const recheckDecks = useCallback(async (format: TalkFormat) => {
+    const rechecked = new Map<string, Pick<EventPresentation, 'slideCount' | 'deckIssues'>>();
+    for (const pres of presentations) {
+      try {
+        const count = await getDeckPageCount(pres);
+        const fits = slideCountIssue(count, format, pres.countFix)?.severity !== 'error';
+        rechecked.set(pres.id, {
+          // A count fix trims or pads the deck again for the new format
+          slideCount: fits ? format.slideCount : count,
+          deckIssues: recheckSlideCount(pres.deckIssues, count, format, pres.countFix),
+        });
+      } catch (err) {
+        console.warn(`[Setup] Could not recheck ${pres.fileName}:`, err);
+      }
+    }
+    setPresentations((prev) => prev.map((p) => {
+      const fields = rechecked.get(p.id);
+      if (!fields || (fields.slideCount === p.slideCount && JSON.stringify(fields.deckIssues) === JSON.stringify(p.deckIssues))) {
+        return p;
+      }
+      const updated = { ...p, ...fields };
+      putPresentation(updated);
+      return updated;
+    }));
+  }, [presentations]);
+
+  const updateFormat = useCallback((format: TalkFormat) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, format };
+      saveEvent(updated);
+      return updated;
+    });
+    // Typing in the slide count changes the format on every keystroke
+    clearTimeout(recheckTimerRef.current);
+    recheckTimerRef.current = setTimeout(() => recheckDecks(format), 500);
+  }, [saveEvent, recheckDecks]);
+
+  const updateIntermission = useCallback((seconds: number) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, intermissionSeconds: seconds };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  const updateAudioCues = useCallback((patch: Partial<AudioCueSettings>) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, audioCues: { ...getAudioCueSettings(prev), ...patch } };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  const updateSlideFit = useCallback((patch: Partial<SlideFitSettings>) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, slideFit: { ...getSlideFit(prev), ...patch } };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  const updateCamera = useCallback((patch: Partial<CameraPipSettings>) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, camera: { ...getCameraPip(prev), ...patch } };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  const selectRecordingPreset = useCallback((preset: RecordingPreset) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      // Custom starts from the values in use
+      const recordingQuality = preset === 'custom'
+        ? { ...getRecordingQuality(prev), preset }
+        : RECORDING_PRESETS[preset];
+      const updated = { ...prev, recordingQuality };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  const updateRecordingQuality = useCallback((patch: Partial<RecordingQuality>) => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, recordingQuality: { ...getRecordingQuality(prev), ...patch, preset: 'custom' as const } };
+      saveEvent(updated);
+      return updated;
+    });
+  }, [saveEvent]);
+
+  // Play both cues once at the chosen volume
+  const previewAudioCues = useCallback(() => {
+    const { volume } = getAudioCueSettings(event);
+    const player = createAudioCuePlayer();
+    player.play('slide-tick', volume);
+    setTimeout(() => player.play('final-warning', volume), 400);
+    setTimeout(() => player.close(), 1500);
+  }, [event]);
+
+  const updateField = useCallback((field: 'name' | 'city' | 'date' | 'link', value: string) => {
     setEvent((prev) => {
       if (!prev) return prev;
       const updated = { ...prev, [field]: value };
@@ -135,49 +313,209 @@ export function EventSetupScreen() {
     multiple: false,
   });
 
-  // PDF upload
-  const onPdfDrop = useCallback(async (files: File[]) => {
-    if (files.length === 0 || !eventId) return;
+  const format = getEventFormat(event);
+  const misfitCount = presentations.filter((p) => p.slideCount !== undefined && p.slideCount !== format.slideCount).length;
+  const audioCues = getAudioCueSettings(event);
+  const slideFit = getSlideFit(event);
+  const camera = getCameraPip(event);
+  const recordingQuality = getRecordingQuality(event);
+  const talkRecordingBytes = estimateRecordingBytes(recordingQuality, getTotalDurationMs(format));
+  const readyCount = presentations.filter((p) => cachedIds.has(p.id)).length;
+
+  // Deck upload: one PDF, a ZIP of images, or the images themselves
+  const pdfAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => pdfAbortRef.current?.abort(), []);
+
+  // The run screen freezes decks when the show starts, maybe in another window
+  const isDecksFrozen = useCallback(async () => {
+    if (event?.decksFrozen) return true;
+    const frozen = !!eventId && !!(await getEvent(eventId))?.decksFrozen;
+    // Show it here too, so unfreezing works from this screen
+    if (frozen) setEvent((prev) => prev && { ...prev, decksFrozen: true });
+    return frozen;
+  }, [event?.decksFrozen, eventId]);
+
+  // Render, check and store a deck; `fix` makes a wrong page count fit
+  const addDeck = useCallback(async ({ files, images, count, replaceId, password }: PendingDeck, fix?: SlideCountFix) => {
+    if (!eventId) return;
     const file = files[0];
     setPdfError(null);
+    setPendingDeck(null);
+    // Frozen since the fix or password panel opened, here or by the show starting
+    if (replaceId && await isDecksFrozen()) {
+      setPdfError('Decks are frozen; unfreeze them to replace a deck.');
+      return;
+    }
     setPdfLoading(true);
     setPdfProgress(0);
+    const controller = new AbortController();
+    pdfAbortRef.current = controller;
 
     try {
-      // Validate by rendering (checks 20 pages)
-      const deck = await loadAndRenderPdf(file, (page) => setPdfProgress(page));
-      // Revoke rendered blob URLs — we only needed validation
-      deck.slides.forEach((s) => URL.revokeObjectURL(s.objectUrl));
-
-      const presId = crypto.randomUUID();
-      const newPres: EventPresentation = {
-        id: presId,
-        eventId,
-        fileName: file.name,
-        speakerName: '',
-        storyName: '',
-        storyTone: 'optimistic',
-        order: presentations.length,
+      const onProgress = (page: number) => setPdfProgress(page);
+      const slides = images
+        ? await renderImageSlides(images, format, onProgress, controller.signal, { countFix: fix })
+        : await renderPdfSlides(file, format, onProgress, controller.signal, { countFix: fix, pdfPassword: password });
+
+      const countIssue = slideCountIssue(count, format, fix);
+      const fileSize = files.reduce((sum, f) => sum + f.size, 0);
+      const padded = Math.max(0, format.slideCount - count);
+      const deckIssues = [...(countIssue ? [countIssue] : []), ...await analyzeDeck(slides, fileSize, padded)];
+      const mediaSlides = slides.filter((s) => s.media).map((s) => s.pageNumber - 1);
+      const deckFields: DeckFields = {
+        fileName: images && files.length > 1 ? `${images.length} images` : file.name,
+        deckKind: images ? 'images' : 'pdf',
+        slideCount: slides.length,
+        countFix: fix,
+        mediaSlides: mediaSlides.length > 0 ? mediaSlides : undefined,
+        deckIssues: deckIssues.length > 0 ? deckIssues : undefined,
+        pdfPassword: password,
       };
-      await putPresentation(newPres);
-      await putPdfBlob(presId, file);
-      setPresentations((prev) => [...prev, newPres]);
+
+      const target = replaceId ? presentations.find((p) => p.id === replaceId) : undefined;
+      let pres: EventPresentation;
+      if (target) {
+        // Same talk, new deck: names, timing and recording stay
+        const deckVersion = await archiveCurrentDeck(target);
+        pres = { ...target, ...deckFields, deckVersion };
+      } else {
+        pres = {
+          id: crypto.randomUUID(),
+          eventId,
+          speakerName: '',
+          storyName: '',
+          storyTone: 'optimistic',
+          order: presentations.length,
+          ...deckFields,
+        };
+      }
+      await storeDeckFiles(pres.id, deckFields.deckKind!, images ?? [file]);
+      await putPresentation(pres);
+      // Keep the validation render so the talk starts without rendering again
+      await cacheRenderedSlides(pres.id, slides);
+      setPresentations((prev) => (target ? prev.map((p) => (p.id === pres.id ? pres : p)) : [...prev, pres]));
+      setCachedIds((prev) => new Set(prev).add(pres.id));
     } catch (err) {
-      if (err instanceof PdfValidationError) {
+      if (err instanceof RenderCancelledError) {
+        // Cancelled by the user or by leaving the screen
+      } else if (err instanceof PdfValidationError) {
         setPdfError(err.message);
       } else {
-        setPdfError('Failed to load PDF. The file may be corrupted.');
+        setPdfError(images ? 'Failed to load the slide files.' : 'Failed to load PDF. The file may be corrupted.');
       }
     } finally {
+      pdfAbortRef.current = null;
       setPdfLoading(false);
     }
-  }, [eventId, presentations.length]);
+  }, [eventId, presentations, format, isDecksFrozen]);
+
+  /** Check a dropped or picked deck; `replaceId` swaps it into an existing talk */
+  const openDeck = useCallback(async (files: File[], replaceId?: string, password?: string) => {
+    if (files.length === 0 || !eventId) return;
+    const file = files[0];
+    const isPdf = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+    if (isPdf && files.length > 1) {
+      setPdfError('Drop one PDF at a time, or all the slide images together.');
+      return;
+    }
+    const tooLarge = files.find((f) => f.size > (isPdf ? MAX_PDF_SIZE : MAX_ZIP_SIZE));
+    if (tooLarge) {
+      setPdfError(`File is too large (${(tooLarge.size / (1024 * 1024)).toFixed(1)} MB). Maximum size is ${isPdf ? 30 : 100} MB.`);
+      return;
+    }
+    setPdfError(null);
+    setPendingDeck(null);
+    setLockedDeck(null);
+
+    try {
+      // Count first: a wrong count waits for a fix instead of failing the upload
+      const images = isPdf ? null : await collectDeckImages(files);
+      const count = images ? images.length : await getPdfPageCount(file, password);
+      const deck: PendingDeck = { files, images, count, replaceId, password };
+      if (count !== format.slideCount) {
+        setPendingDeck(deck);
+        return;
+      }
+      await addDeck(deck);
+    } catch (err) {
+      if (err instanceof PdfPasswordError) {
+        setPasswordInput('');
+        setLockedDeck({ file, replaceId, incorrect: err.incorrect });
+      } else if (err instanceof PdfValidationError) {
+        setPdfError(err.message);
+      } else {
+        setPdfError(isPdf ? 'Failed to load PDF. The file may be corrupted.' : 'Failed to load the slide files.');
+      }
+    }
+  }, [eventId, format, addDeck]);
+
+  const onDeckDrop = useCallback((files: File[]) => openDeck(files), [openDeck]);
+
+  const handleUnlockDeck = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (lockedDeck && passwordInput) openDeck([lockedDeck.file], lockedDeck.replaceId, passwordInput);
+  }, [lockedDeck, passwordInput, openDeck]);
+
+  // Replace deck: a hidden file input, pointed at the talk whose button was clicked
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<string | null>(null);
+  const handleReplaceClick = useCallback((presId: string) => {
+    replaceTargetRef.current = presId;
+    replaceInputRef.current?.click();
+  }, []);
+  const handleReplaceFiles = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (replaceTargetRef.current) openDeck(files, replaceTargetRef.current);
+  }, [openDeck]);
+
+  const handleRestoreVersion = useCallback(async (presId: string, version: DeckVersion) => {
+    const pres = presentations.find((p) => p.id === presId);
+    if (!pres) return;
+    if (await isDecksFrozen()) {
+      setPdfError('Decks are frozen; unfreeze them to roll back a deck.');
+      return;
+    }
+    try {
+      const restored = await restoreDeckVersion(pres, version);
+      await putPresentation(restored);
+      setPresentations((prev) => prev.map((p) => (p.id === presId ? restored : p)));
+      // Restoring drops the slide cache; it renders again on preview or pre-render
+      setCachedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(presId);
+        return next;
+      });
+    } catch (err) {
+      console.error('[Setup] Could not restore deck version:', err);
+      setPdfError('Could not restore that version.');
+    }
+  }, [presentations, isDecksFrozen]);
+
+  const toggleDecksFrozen = useCallback(() => {
+    setEvent((prev) => {
+      if (!prev) return prev;
+      const updated = { ...prev, decksFrozen: !prev.decksFrozen };
+      putEvent(updated);
+      return updated;
+    });
+  }, []);
 
   const pdfDropzone = useDropzone({
-    onDrop: onPdfDrop,
-    accept: { 'application/pdf': ['.pdf'] },
-    maxSize: 30 * 1024 * 1024,
-    multiple: false,
+    onDrop: onDeckDrop,
+    accept: {
+      'application/pdf': ['.pdf'],
+      'application/zip': ['.zip'],
+      'image/png': ['.png'],
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/webp': ['.webp'],
+      'image/gif': ['.gif'],
+      'video/mp4': ['.mp4'],
+      'video/webm': ['.webm'],
+    },
+    // Per file; PDFs are held to MAX_PDF_SIZE in onDeckDrop
+    maxSize: MAX_ZIP_SIZE,
+    multiple: true,
     disabled: pdfLoading,
   });
 
@@ -196,13 +534,67 @@ export function EventSetupScreen() {
     });
   }, []);
 
+  // Per-slide timing (the editor only reports timing that keeps the total fixed)
+  const updatePresTiming = useCallback((presId: string, slideDurations: SlideDurations | undefined) => {
+    setPresentations((prev) => {
+      const updated = prev.map((p) =>
+        p.id === presId ? { ...p, slideDurations } : p,
+      );
+      const pres = updated.find((p) => p.id === presId);
+      if (pres) putPresentation(pres);
+      return updated;
+    });
+  }, []);
+
+  const closePreview = useCallback(() => {
+    setPreview(null);
+    // The preview renders and caches decks that weren't cached yet
+    getCachedPresIds().then(setCachedIds).catch(() => {});
+  }, []);
+
+  // Per-talk fit mode; undefined goes back to the event's
+  const updatePresFitMode = useCallback((presId: string, slideFitMode: SlideFitMode | undefined) => {
+    setPresentations((prev) => {
+      const updated = prev.map((p) =>
+        p.id === presId ? { ...p, slideFitMode } : p,
+      );
+      const pres = updated.find((p) => p.id === presId);
+      if (pres) putPresentation(pres);
+      return updated;
+    });
+  }, []);
+
+  // Clips play muted unless the speaker wants their sound in the room
+  const toggleMediaAudio = useCallback((presId: string) => {
+    setPresentations((prev) => {
+      const updated = prev.map((p) =>
+        p.id === presId ? { ...p, mediaAudio: !p.mediaAudio } : p,
+      );
+      const pres = updated.find((p) => p.id === presId);
+      if (pres) putPresentation(pres);
+      return updated;
+    });
+  }, []);
+
+  // Camera-shy speakers keep the tile out of their talk's recording
+  const toggleCameraOff = useCallback((presId: string) => {
+    setPresentations((prev) => {
+      const updated = prev.map((p) =>
+        p.id === presId ? { ...p, cameraOff: !p.cameraOff } : p,
+      );
+      const pres = updated.find((p) => p.id === presId);
+      if (pres) putPresentation(pres);
+      return updated;
+    });
+  }, []);
+
   // Download recording
   const handleDownloadRecording = useCallback((presId: string, fileName: string) => {
     const url = recordingUrls.get(presId);
     if (!url) return;
     const a = document.createElement('a');
     a.href = url;
-    const baseName = fileName.replace(/\.pdf$/i, '');
+    const baseName = fileName.replace(/\.(pdf|zip)$/i, '');
     a.download = `${baseName}-recording.webm`;
     document.body.appendChild(a);
     a.click();
@@ -218,7 +610,7 @@ export function EventSetupScreen() {
       const response = await fetch(url);
       const webmBlob = await response.blob();
       const mp4Blob = await convertWebmToMp4(webmBlob);
-      const baseName = fileName.replace(/\.pdf$/i, '');
+      const baseName = fileName.replace(/\.(pdf|zip)$/i, '');
       const mp4Url = URL.createObjectURL(mp4Blob);
       const a = document.createElement('a');
       a.href = mp4Url;
@@ -256,6 +648,69 @@ export function EventSetupScreen() {
     });
   }, []);
 
+  // Orphaned chunks: assemble them into the talk's recording, or throw them away
+  const dropOrphan = useCallback((presId: string) => {
+    setOrphans((prev) => {
+      const next = new Map(prev);
+      next.delete(presId);
+      return next;
+    });
+  }, []);
+
+  const handleRecoverRecording = useCallback(async (presId: string) => {
+    if (!eventId) return;
+    setRecoveringId(presId);
+    try {
+      const blob = await recoverRecording(eventId, presId);
+      if (blob) {
+        const url = URL.createObjectURL(blob);
+        setRecordingUrls((prev) => {
+          const oldUrl = prev.get(presId);
+          if (oldUrl) URL.revokeObjectURL(oldUrl);
+          const next = new Map(prev);
+          next.set(presId, url);
+          return next;
+        });
+      }
+      dropOrphan(presId);
+    } catch (err) {
+      console.error('[Setup] Could not recover recording:', err);
+    } finally {
+      setRecoveringId(null);
+    }
+  }, [eventId, dropOrphan]);
+
+  const handleDiscardOrphan = useCallback(async (presId: string) => {
+    if (!eventId) return;
+    await discardOrphanedRecording(eventId, presId);
+    dropOrphan(presId);
+  }, [eventId, dropOrphan]);
+
+  // Render every deck ahead of the show, so no talk waits on the renderer
+  const preRenderAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => preRenderAbortRef.current?.abort(), []);
+
+  const handlePreRenderAll = useCallback(async () => {
+    const pending = presentations.filter((p) => !cachedIds.has(p.id));
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    preRenderAbortRef.current = controller;
+    setPreRenderFailed([]);
+    setPreRendering({ done: 0, total: pending.length });
+    try {
+      const failed = await preRenderDecks(pending, format, (presId, ok) => {
+        if (ok) setCachedIds((prev) => new Set(prev).add(presId));
+        setPreRendering((prev) => prev && { ...prev, done: prev.done + 1 });
+      }, controller.signal);
+      setPreRenderFailed(failed.map((p) => p.fileName));
+    } catch (err) {
+      if (!(err instanceof RenderCancelledError)) throw err;
+    } finally {
+      preRenderAbortRef.current = null;
+      setPreRendering(null);
+    }
+  }, [presentations, cachedIds, format]);
+
   // Delete presentation
   const handleDeletePres = useCallback(async (presId: string) => {
     const recUrl = recordingUrls.get(presId);
@@ -289,6 +744,7 @@ export function EventSetupScreen() {
       date: event.date,
       link: event.link,
       eventId: event.id,
+      format: getEventFormat(event),
       presentations: presentations.map((p) => ({
         speakerName: p.speakerName,
         storyName: p.storyName,
@@ -340,14 +796,19 @@ export function EventSetupScreen() {
           </svg>
           Gatherings
         </button>
-        <button className={styles.shareButton} onClick={handleOpenPublicPage}>
-          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-            <circle cx="12" cy="12" r="10" />
-            <line x1="2" y1="12" x2="22" y2="12" />
-            <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
-          </svg>
-          Public Page
-        </button>
+        <div className={styles.headerActions}>
+          <button className={styles.shareButton} onClick={() => navigate(`/admin/events/${eventId}/report`)}>
+            Run Report
+          </button>
+          <button className={styles.shareButton} onClick={handleOpenPublicPage}>
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="12" cy="12" r="10" />
+              <line x1="2" y1="12" x2="22" y2="12" />
+              <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+            </svg>
+            Public Page
+          </button>
+        </div>
       </header>
 
       <div className={styles.form}>
@@ -397,6 +858,302 @@ export function EventSetupScreen() {
             />
           </div>
 
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Talk Format</label>
+            <div className={styles.formatRow}>
+              {[
+                ...TALK_FORMAT_PRESETS.map((p) => [p.preset, p.label] as [TalkFormatPreset, string]),
+                ['custom', 'Custom'] as [TalkFormatPreset, string],
+              ].map(([preset, label]) => (
+                <button
+                  key={preset}
+                  className={`${styles.toneButton} ${format.preset === preset ? styles.toneActive : ''}`}
+                  onClick={() => updateFormat(formatFromPreset(preset, format))}
+                  type="button"
+                >
+                  <span className={styles.toneLabel}>{label}</span>
+                </button>
+              ))}
+            </div>
+            {format.preset === 'custom' && (
+              <div className={styles.row}>
+                <div className={styles.fieldGroup}>
+                  <label className={styles.label}>Slides</label>
+                  <input
+                    className={styles.input}
+                    type="number"
+                    min={MIN_SLIDES}
+                    max={MAX_SLIDES}
+                    value={format.slideCount}
+                    onChange={(e) => updateFormat({
+                      ...format,
+                      slideCount: clampInt(e.target.valueAsNumber, MIN_SLIDES, MAX_SLIDES),
+                    })}
+                  />
+                </div>
+                <div className={styles.fieldGroup}>
+                  <label className={styles.label}>Seconds per slide</label>
+                  <input
+                    className={styles.input}
+                    type="number"
+                    min={MIN_SLIDE_SECONDS}
+                    max={MAX_SLIDE_SECONDS}
+                    value={format.slideSeconds}
+                    onChange={(e) => updateFormat({
+                      ...format,
+                      slideSeconds: clampInt(e.target.valueAsNumber, MIN_SLIDE_SECONDS, MAX_SLIDE_SECONDS),
+                    })}
+                  />
+                </div>
+              </div>
+            )}
+            <span className={styles.formatSummary}>
+              {format.slideCount} slides × {format.slideSeconds}s = {formatTotalLabel(format)} per talk
+            </span>
+            {misfitCount > 0 && (
+              <span className={styles.timingWarning}>
+                {misfitCount} deck{misfitCount !== 1 ? 's have' : ' has'} the wrong slide count for this format; see the talks below.
+              </span>
+            )}
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Intermission (seconds)</label>
+            <input
+              className={styles.input}
+              type="number"
+              min={MIN_INTERMISSION_SECONDS}
+              max={MAX_INTERMISSION_SECONDS}
+              value={getIntermissionSeconds(event)}
+              onChange={(e) => updateIntermission(
+                clampInt(e.target.valueAsNumber, MIN_INTERMISSION_SECONDS, MAX_INTERMISSION_SECONDS),
+              )}
+            />
+            <span className={styles.formatSummary}>
+              Countdown between talks when the show runs on autopilot
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Slide Fit</label>
+            <div className={styles.formatRow}>
+              {(Object.entries(SLIDE_FIT_LABELS) as [SlideFitMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  className={`${styles.toneButton} ${slideFit.mode === mode ? styles.toneActive : ''}`}
+                  onClick={() => updateSlideFit({ mode })}
+                  type="button"
+                >
+                  <span className={styles.toneLabel}>{label}</span>
+                </button>
+              ))}
+              <input
+                className={styles.colorInput}
+                type="color"
+                value={slideFit.background}
+                onChange={(e) => updateSlideFit({ background: e.target.value })}
+                disabled={slideFit.mode !== 'contain'}
+                title="Letterbox colour"
+              />
+            </div>
+            <span className={styles.formatSummary}>
+              For slides shaped unlike the rest of their deck: fit on a background, fill and crop, or stretch. The recording matches the screen.
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Audio Cues</label>
+            {([
+              ['slideTick', 'Tick on each slide change'],
+              ['finalWarning', `Chime ${audioCues.warningSeconds}s before the talk ends`],
+              ['includeInRecording', 'Include cues in the recording'],
+            ] as [keyof AudioCueSettings, string][]).map(([key, label]) => (
+              <div key={key} className={styles.toggleRow}>
+                <button
+                  className={`${styles.toggle} ${audioCues[key] ? styles.toggleOn : ''}`}
+                  onClick={() => updateAudioCues({ [key]: !audioCues[key] })}
+                  type="button"
+                  aria-pressed={!!audioCues[key]}
+                >
+                  <span className={styles.toggleThumb} />
+                </button>
+                <span className={styles.toggleLabel}>{label}</span>
+              </div>
+            ))}
+            <div className={styles.row}>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label}>Chime (seconds before end)</label>
+                <input
+                  className={styles.input}
+                  type="number"
+                  min={MIN_WARNING_SECONDS}
+                  max={MAX_WARNING_SECONDS}
+                  value={audioCues.warningSeconds}
+                  onChange={(e) => updateAudioCues({
+                    warningSeconds: clampInt(e.target.valueAsNumber, MIN_WARNING_SECONDS, MAX_WARNING_SECONDS),
+                  })}
+                />
+              </div>
+              <div className={styles.fieldGroup}>
+                <label className={styles.label}>Volume {Math.round(audioCues.volume * 100)}%</label>
+                <div className={styles.volumeRow}>
+                  <input
+                    className={styles.volumeSlider}
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(audioCues.volume * 100)}
+                    onChange={(e) => updateAudioCues({ volume: e.target.valueAsNumber / 100 })}
+                  />
+                  <button className={styles.previewButton} onClick={previewAudioCues} type="button">
+                    Test
+                  </button>
+                </div>
+              </div>
+            </div>
+            <span className={styles.formatSummary}>
+              Only the speaker hears the cues unless they are included in the recording
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Speaker Camera</label>
+            <div className={styles.toggleRow}>
+              <button
+                className={`${styles.toggle} ${camera.enabled ? styles.toggleOn : ''}`}
+                onClick={() => updateCamera({ enabled: !camera.enabled })}
+                type="button"
+                aria-pressed={camera.enabled}
+              >
+                <span className={styles.toggleThumb} />
+              </button>
+              <span className={styles.toggleLabel}>Show the speaker in recordings</span>
+            </div>
+            {camera.enabled && (
+              <>
+                <div className={styles.formatRow}>
+                  {(Object.entries(CAMERA_CORNER_LABELS) as [CameraCorner, string][]).map(([corner, label]) => (
+                    <button
+                      key={corner}
+                      className={`${styles.toneButton} ${camera.corner === corner ? styles.toneActive : ''}`}
+                      onClick={() => updateCamera({ corner })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>{label}</span>
+                    </button>
+                  ))}
+                </div>
+                <div className={styles.formatRow}>
+                  {(Object.entries(CAMERA_SHAPE_LABELS) as [CameraShape, string][]).map(([shape, label]) => (
+                    <button
+                      key={shape}
+                      className={`${styles.toneButton} ${camera.shape === shape ? styles.toneActive : ''}`}
+                      onClick={() => updateCamera({ shape })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>{label}</span>
+                    </button>
+                  ))}
+                </div>
+                <label className={styles.label}>Size {Math.round(camera.size * 100)}% of the width</label>
+                <input
+                  className={styles.volumeSlider}
+                  type="range"
+                  min={MIN_CAMERA_SIZE * 100}
+                  max={MAX_CAMERA_SIZE * 100}
+                  value={Math.round(camera.size * 100)}
+                  onChange={(e) => updateCamera({ size: e.target.valueAsNumber / 100 })}
+                />
+              </>
+            )}
+            <span className={styles.formatSummary}>
+              A picture-in-picture tile from the webcam, recorded only while Capture is on. Speakers can opt out per talk.
+            </span>
+          </div>
+
+          <div className={styles.fieldGroup}>
+            <label className={styles.label}>Recording Quality</label>
+            <div className={styles.formatRow}>
+              {(Object.entries(RECORDING_PRESET_LABELS) as [RecordingPreset, string][]).map(([preset, label]) => (
+                <button
+                  key={preset}
+                  className={`${styles.toneButton} ${recordingQuality.preset === preset ? styles.toneActive : ''}`}
+                  onClick={() => selectRecordingPreset(preset)}
+                  type="button"
+                >
+                  <span className={styles.toneLabel}>{label}</span>
+                </button>
+              ))}
+            </div>
+            {recordingQuality.preset === 'custom' && (
+              <>
+                <div className={styles.formatRow}>
+                  {RECORDING_SIZES.map(({ width, height, label }) => (
+                    <button
+                      key={label}
+                      className={`${styles.toneButton} ${recordingQuality.width === width && recordingQuality.height === height ? styles.toneActive : ''}`}
+                      onClick={() => updateRecordingQuality({ width, height })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>{label}</span>
+                    </button>
+                  ))}
+                </div>
+                <div className={styles.formatRow}>
+                  {RECORDING_FRAME_RATES.map((frameRate) => (
+                    <button
+                      key={frameRate}
+                      className={`${styles.toneButton} ${recordingQuality.frameRate === frameRate ? styles.toneActive : ''}`}
+                      onClick={() => updateRecordingQuality({ frameRate })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>{frameRate} fps</span>
+                    </button>
+                  ))}
+                </div>
+                <label className={styles.label}>Video {(recordingQuality.videoBitsPerSecond / 1_000_000).toFixed(1)} Mbps</label>
+                <input
+                  className={styles.volumeSlider}
+                  type="range"
+                  min={MIN_VIDEO_BITRATE}
+                  max={MAX_VIDEO_BITRATE}
+                  step={500_000}
+                  value={recordingQuality.videoBitsPerSecond}
+                  onChange={(e) => updateRecordingQuality({ videoBitsPerSecond: e.target.valueAsNumber })}
+                />
+                <div className={styles.formatRow}>
+                  {RECORDING_AUDIO_BITRATES.map((audioBitsPerSecond) => (
+                    <button
+                      key={audioBitsPerSecond}
+                      className={`${styles.toneButton} ${recordingQuality.audioBitsPerSecond === audioBitsPerSecond ? styles.toneActive : ''}`}
+                      onClick={() => updateRecordingQuality({ audioBitsPerSecond })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>Audio {audioBitsPerSecond / 1000} kbps</span>
+                    </button>
+                  ))}
+                </div>
+                <div className={styles.formatRow}>
+                  {(Object.entries(RECORDING_CODEC_LABELS) as [RecordingCodec, string][]).map(([codec, label]) => (
+                    <button
+                      key={codec}
+                      className={`${styles.toneButton} ${recordingQuality.codec === codec ? styles.toneActive : ''}`}
+                      onClick={() => updateRecordingQuality({ codec })}
+                      type="button"
+                    >
+                      <span className={styles.toneLabel}>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+            <span className={styles.formatSummary}>
+              About {formatFileSize(talkRecordingBytes)} per talk
+              {presentations.length > 1 && `, ${formatFileSize(talkRecordingBytes * presentations.length)} for all ${presentations.length}`}.
+              {' '}Still slides often come out smaller. A codec the browser can't record falls back to its default.
+            </span>
+          </div>
+
           <div className={styles.toggleRow}>
             <button
               className={`${styles.toggle} ${event.recordEnabled ? styles.toggleOn : ''}`}
@@ -410,6 +1167,23 @@ export function EventSetupScreen() {
               Capture {event.recordEnabled ? 'ON' : 'OFF'}
             </span>
           </div>
+
+          <div className={styles.toggleRow}>
+            <button
+              className={`${styles.toggle} ${event.decksFrozen ? styles.toggleOn : ''}`}
+              onClick={toggleDecksFrozen}
+              type="button"
+              aria-pressed={!!event.decksFrozen}
+            >
+              <span className={styles.toggleThumb} />
+            </button>
+            <span className={styles.toggleLabel}>
+              Freeze decks {event.decksFrozen ? '(no replacing or rolling back)' : ''}
+            </span>
+          </div>
+          <span className={styles.formatSummary}>
+            Decks freeze by themselves when the show starts
+          </span>
         </section>
 
         {/* Logo */}
@@ -442,6 +1216,37 @@ export function EventSetupScreen() {
             )}
           </h2>
 
+          {presentations.length > 0 && (
+            <div className={styles.cacheRow}>
+              <span className={styles.formatSummary}>
+                {preRendering
+                  ? `Pre-rendering deck ${Math.min(preRendering.done + 1, preRendering.total)} of ${preRendering.total}...`
+                  : `${readyCount} of ${presentations.length} decks ready to play`}
+              </span>
+              {preRendering ? (
+                <button className={styles.previewButton} onClick={() => preRenderAbortRef.current?.abort()} type="button">
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  className={styles.previewButton}
+                  onClick={handlePreRenderAll}
+                  disabled={readyCount === presentations.length}
+                  type="button"
+                >
+                  Pre-render all
+                </button>
+              )}
+            </div>
+          )}
+
+          {preRenderFailed.length > 0 && (
+            <div className={styles.error}>
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10" /><line x1="15" y1="9" x2="9" y2="15" /><line x1="9" y1="9" x2="15" y2="15" /></svg>
+              Could not render {preRenderFailed.join(', ')}
+            </div>
+          )}
+
           {presentations.length > 0 && (
             <div className={styles.presList}>
               {presentations.map((pres, index) => (
@@ -472,8 +1277,74 @@ export function EventSetupScreen() {
                         <polyline points="14 2 14 8 20 8" />
                       </svg>
                       <span className={styles.presFileName}>{pres.fileName}</span>
-                      <span className={styles.presSlides}>20 slides</span>
+                      <span
+                        className={`${styles.presSlides} ${pres.slideCount !== undefined && pres.slideCount !== format.slideCount ? styles.presSlidesMismatch : ''}`}
+                        title={pres.slideCount !== undefined && pres.slideCount !== format.slideCount ? `This format needs ${format.slideCount} slides` : undefined}
+                      >
+                        {pres.slideCount ?? format.slideCount} slides
+                      </span>
+                      {cachedIds.has(pres.id) && (
+                        <span className={styles.presSlides} title="Slides are pre-rendered">ready</span>
+                      )}
+                      {event.recordEnabled && (
+                        <span className={styles.presSlides} title="Estimated size of this talk's recording">
+                          ≈ {formatFileSize(talkRecordingBytes)}
+                        </span>
+                      )}
+                      <button
+                        className={styles.previewButton}
+                        onClick={() => setPreview({ presId: pres.id, slide: 0 })}
+                        type="button"
+                      >
+                        Preview
+                      </button>
+                      <button
+                        className={styles.previewButton}
+                        onClick={() => handleReplaceClick(pres.id)}
+                        disabled={!!event.decksFrozen || pdfLoading}
+                        title={event.decksFrozen ? 'Decks are frozen' : 'Upload a new deck for this talk; the current one is kept in its history'}
+                        type="button"
+                      >
+                        Replace
+                      </button>
+                      {(pres.deckVersion ?? 1) > 1 && (
+                        <button
+                          className={`${styles.toneButton} ${historyPresId === pres.id ? styles.toneActive : ''}`}
+                          onClick={() => setHistoryPresId((prev) => (prev === pres.id ? null : pres.id))}
+                          title="Earlier decks"
+                          type="button"
+                        >
+                          <span className={styles.toneLabel}>v{pres.deckVersion}</span>
+                        </button>
+                      )}
                     </div>
+                    {historyPresId === pres.id && (
+                      <DeckHistory
+                        presId={pres.id}
+                        currentVersion={pres.deckVersion ?? 1}
+                        frozen={!!event.decksFrozen}
+                        onRestore={(version) => handleRestoreVersion(pres.id, version)}
+                      />
+                    )}
+                    {cachedIds.has(pres.id) && (
+                      <SlideThumbnailStrip
+                        presId={pres.id}
+                        format={format}
+                        onSelect={(slide) => setPreview({ presId: pres.id, slide })}
+                      />
+                    )}
+                    {pres.deckIssues && pres.deckIssues.length > 0 && (
+                      <ul className={styles.deckIssues}>
+                        {pres.deckIssues.map((issue) => (
+                          <li
+                            key={issue.kind}
+                            className={issue.severity === 'error' ? styles.deckIssueError : styles.deckIssueWarning}
+                          >
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     <div className={styles.presFields}>
                       <input
                         className={`${styles.presInput} ${!pres.speakerName?.trim() ? styles.presInputRequired : ''}`}
@@ -508,6 +1379,39 @@ export function EventSetupScreen() {
                         </button>
                       ))}
                     </div>
+                    <div className={styles.toneRow}>
+                      <span className={styles.toneRowLabel}>Slide fit</span>
+                      <button
+                        className={`${styles.toneButton} ${!pres.slideFitMode ? styles.toneActive : ''}`}
+                        onClick={() => updatePresFitMode(pres.id, undefined)}
+                        type="button"
+                      >
+                        <span className={styles.toneLabel}>Event ({SLIDE_FIT_LABELS[slideFit.mode]})</span>
+                      </button>
+                      {(Object.entries(SLIDE_FIT_LABELS) as [SlideFitMode, string][]).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          className={`${styles.toneButton} ${pres.slideFitMode === mode ? styles.toneActive : ''}`}
+                          onClick={() => updatePresFitMode(pres.id, mode)}
+                          type="button"
+                        >
+                          <span className={styles.toneLabel}>{label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    {camera.enabled && (
+                      <div className={styles.toneRow}>
+                        <span className={styles.toneRowLabel}>Camera</span>
+                        <button
+                          className={`${styles.toneButton} ${!pres.cameraOff ? styles.toneActive : ''}`}
+                          onClick={() => toggleCameraOff(pres.id)}
+                          type="button"
+                          aria-pressed={!pres.cameraOff}
+                        >
+                          <span className={styles.toneLabel}>{pres.cameraOff ? 'Speaker opted out' : 'In the recording'}</span>
+                        </button>
+                      </div>
+                    )}
                     <textarea
                       className={styles.presTextarea}
                       value={pres.speakerBio ?? ''}
@@ -547,6 +1451,67 @@ export function EventSetupScreen() {
                         />
                       </div>
                     </div>
+                    <div className={styles.timingRow}>
+                      <button
+                        className={`${styles.toneButton} ${pres.slideDurations ? styles.toneActive : ''}`}
+                        onClick={() => setTimingPresId((prev) => (prev === pres.id ? null : pres.id))}
+                        type="button"
+                      >
+                        <span className={styles.toneLabel}>
+                          {pres.slideDurations ? 'Custom timing' : `${format.slideSeconds}s per slide`}
+                        </span>
+                      </button>
+                      {pres.slideDurations && validateSlideDurations(format, pres.slideDurations) && (
+                        <span className={styles.timingWarning}>
+                          Doesn't fit the current format — uniform timing will be used
+                        </span>
+                      )}
+                      {pres.mediaSlides && pres.mediaSlides.length > 0 && (
+                        <button
+                          className={`${styles.toneButton} ${pres.mediaAudio ? styles.toneActive : ''}`}
+                          onClick={() => toggleMediaAudio(pres.id)}
+                          type="button"
+                          title={`Slides with motion: ${pres.mediaSlides.map((i) => i + 1).join(', ')}`}
+                        >
+                          <span className={styles.toneLabel}>
+                            {pres.mediaAudio ? 'Clip sound on' : 'Clips muted'}
+                          </span>
+                        </button>
+                      )}
+                    </div>
+                    {timingPresId === pres.id && (
+                      <SlideTimingEditor
+                        key={`${format.slideCount}x${format.slideSeconds}`}
+                        format={format}
+                        value={pres.slideDurations}
+                        onChange={(value) => updatePresTiming(pres.id, value)}
+                      />
+                    )}
+                    {orphans.has(pres.id) && (
+                      <div className={styles.orphanRecording}>
+                        <span className={styles.orphanLabel}>
+                          Unfinished recording, {formatClock(orphans.get(pres.id)!.durationMs)}
+                          {' '}({formatFileSize(orphans.get(pres.id)!.bytes)})
+                          {recordingUrls.has(pres.id) && ' · replaces the recording below'}
+                        </span>
+                        <button
+                          className={styles.recordingAction}
+                          onClick={() => handleRecoverRecording(pres.id)}
+                          disabled={recoveringId !== null}
+                          title="Put the recording back together from what was saved"
+                        >
+                          {recoveringId === pres.id ? 'Recovering...' : 'Recover'}
+                        </button>
+                        <button
+                          className={`${styles.recordingAction} ${styles.recordingActionDanger}`}
+                          onClick={() => handleDiscardOrphan(pres.id)}
+                          disabled={recoveringId === pres.id}
+                          title="Delete the unfinished recording"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    )}
                     {recordingUrls.has(pres.id) && (
                       <div className={styles.recordingPreview}>
                         <video
@@ -627,6 +1592,14 @@ export function EventSetupScreen() {
             </div>
           )}
 
+          <input
+            ref={replaceInputRef}
+            type="file"
+            accept=".pdf,.zip,.png,.jpg,.jpeg,.webp,.gif,.mp4,.webm"
+            multiple
+            hidden
+            onChange={handleReplaceFiles}
+          />
           <div
             {...pdfDropzone.getRootProps()}
             className={`${styles.dropzone} ${pdfLoading ? styles.dropzoneLoading : ''}`}
@@ -634,8 +1607,18 @@ export function EventSetupScreen() {
             <input {...pdfDropzone.getInputProps()} />
             {pdfLoading ? (
               <div className={styles.pdfLoadingBar}>
-                <div className={styles.pdfLoadingFill} style={{ width: `${(pdfProgress / 20) * 100}%` }} />
-                <span>Validating slide {pdfProgress} of 20...</span>
+                <div className={styles.pdfLoadingFill} style={{ width: `${(pdfProgress / format.slideCount) * 100}%` }} />
+                <span>Validating slide {pdfProgress} of {format.slideCount}...</span>
+                <button
+                  className={styles.removeLogo}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    pdfAbortRef.current?.abort();
+                  }}
+                  type="button"
+                >
+                  Cancel
+                </button>
               </div>
             ) : (
               <>
@@ -643,11 +1626,76 @@ export function EventSetupScreen() {
                   <line x1="12" y1="5" x2="12" y2="19" />
                   <line x1="5" y1="12" x2="19" y2="12" />
                 </svg>
-                <span>Add story (PDF, 20 slides, max 30 MB)</span>
+                <span>Add story (PDF, ZIP, images or clips, {format.slideCount} slides, PDF max 30 MB)</span>
               </>
             )}
           </div>
 
+          {lockedDeck && (
+            <form className={styles.deckFixPanel} onSubmit={handleUnlockDeck}>
+              <div className={styles.error}>
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="11" width="18" height="11" rx="2" /><path d="M7 11V7a5 5 0 0 1 10 0v4" /></svg>
+                {lockedDeck.incorrect
+                  ? `Wrong password for ${lockedDeck.file.name}. Try again.`
+                  : `${lockedDeck.file.name} is password-protected.`}
+              </div>
+              <div className={styles.deckFixActions}>
+                <input
+                  className={styles.input}
+                  type="password"
+                  value={passwordInput}
+                  onChange={(e) => setPasswordInput(e.target.value)}
+                  placeholder="PDF password"
+                  autoComplete="off"
+                  autoFocus
+                />
+                <button className={styles.previewButton} type="submit" disabled={!passwordInput}>
+                  Unlock
+                </button>
+                <button className={styles.removeLogo} onClick={() => setLockedDeck(null)} type="button">
+                  Cancel
+                </button>
+              </div>
+              <span className={styles.formatSummary}>
+                The password is saved with the deck on this device so the talk opens without asking again.
+              </span>
+            </form>
+          )}
+
+          {pendingDeck && (() => {
+            const issue = slideCountIssue(pendingDeck.count, format);
+            const diff = Math.abs(pendingDeck.count - format.slideCount);
+            const { count, replaceId } = pendingDeck;
+            const replacing = replaceId ? presentations.find((p) => p.id === replaceId) : undefined;
+            return (
+              <div className={styles.deckFixPanel}>
+                <div className={styles.error}>
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10" /><line x1="15" y1="9" x2="9" y2="15" /><line x1="9" y1="9" x2="15" y2="15" /></svg>
+                  {replacing && `New deck for ${replacing.storyName || replacing.fileName}: `}
+                  {issue?.message ?? 'The deck now fits the format.'}
+                </div>
+                <div className={styles.deckFixActions}>
+                  {!issue ? (
+                    <button className={styles.previewButton} onClick={() => addDeck(pendingDeck)} type="button">
+                      Add deck
+                    </button>
+                  ) : count > format.slideCount ? (
+                    <button className={styles.previewButton} onClick={() => addDeck(pendingDeck, 'trim')} type="button">
+                      Drop the last {diff} page{diff !== 1 ? 's' : ''}
+                    </button>
+                  ) : (
+                    <button className={styles.previewButton} onClick={() => addDeck(pendingDeck, 'pad')} type="button">
+                      Add {diff} blank slide{diff !== 1 ? 's' : ''} at the end
+                    </button>
+                  )}
+                  <button className={styles.removeLogo} onClick={() => setPendingDeck(null)} type="button">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            );
+          })()}
+
           {pdfError && (
             <div className={styles.error}>
               <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10" /><line x1="15" y1="9" x2="9" y2="15" /><line x1="9" y1="9" x2="15" y2="15" /></svg>
@@ -657,6 +1705,19 @@ export function EventSetupScreen() {
         </section>
       </div>
 
+      {preview && (() => {
+        const pres = presentations.find((p) => p.id === preview.presId);
+        return pres && (
+          <DeckPreview
+            pres={pres}
+            format={format}
+            fit={getSlideFit(event, pres)}
+            startSlide={preview.slide}
+            onClose={closePreview}
+          />
+        );
+      })()}
+
       <div className={styles.bottomActions}>
         <button className={styles.saveButton} onClick={handleBack}>
           Save
@@ -666,6 +1727,11 @@ export function EventSetupScreen() {
   );
 }
 
+function clampInt(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.max(min, Math.min(Math.round(value), max));
+}
+
 function blobToDataUrl(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
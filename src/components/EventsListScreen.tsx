@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import type { IgniteEvent, ShareableEvent } from '../types';
 import { getAllEvents, deleteEvent, getLogoBlob, getEventPresentations, getRecordingBlob } from '../lib/db';
 import { generateLogo } from '../lib/generateLogo';
+import { getEventFormat } from '../lib/talkFormat';
 import { buildSlug } from '../lib/shareUrl';
 import { publishEvent } from '../lib/publishEvent';
 import styles from './EventsListScreen.module.css';
@@ -80,6 +81,7 @@ export function EventsListScreen() {
       date: ev.date,
       link: ev.link,
       eventId: ev.id,
+      format: getEventFormat(ev),
       presentations: pres.map((p) => ({
         speakerName: p.speakerName,
         storyName: p.storyName,
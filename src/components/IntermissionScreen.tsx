@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { EventPresentation } from '../types';
+import { useKeymap } from '../hooks/useKeymap';
+import { getKeyAction } from '../lib/keymap';
+import { formatClock } from '../lib/talkFormat';
+import styles from './IntermissionScreen.module.css';
+
+interface IntermissionScreenProps {
+  logoUrl: string | null;
+  eventName: string;
+  nextUp: EventPresentation;
+  /** Talks still to play after `nextUp` */
+  remainingAfter: number;
+  durationMs: number;
+  onComplete: () => void;
+  onSkip: () => void;
+  onHold: () => void;
+}
+
+/**
+ * Autopilot card between talks: counts down, then hands over to the next talk.
+ * Keyed by the next talk, so skipping restarts the countdown.
+ */
+export function IntermissionScreen({
+  logoUrl,
+  eventName,
+  nextUp,
+  remainingAfter,
+  durationMs,
+  onComplete,
+  onSkip,
+  onHold,
+}: IntermissionScreenProps) {
+  const [endsAt, setEndsAt] = useState(() => Date.now() + durationMs);
+  const [pausedLeftMs, setPausedLeftMs] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const remainingMs = pausedLeftMs ?? Math.max(0, endsAt - now);
+
+  useEffect(() => {
+    if (pausedLeftMs !== null) return;
+    const id = setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (t >= endsAt) {
+        clearInterval(id);
+        onComplete();
+      }
+    }, 250);
+    return () => clearInterval(id);
+  }, [endsAt, pausedLeftMs, onComplete]);
+
+  const togglePause = useCallback(() => {
+    if (pausedLeftMs === null) {
+      setPausedLeftMs(Math.max(0, endsAt - Date.now()));
+    } else {
+      setEndsAt(Date.now() + pausedLeftMs);
+      setPausedLeftMs(null);
+    }
+  }, [endsAt, pausedLeftMs]);
+
+  // Same bindings as a talk: start key pauses, next starts now, exit holds
+  const { keymap } = useKeymap();
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (getKeyAction(keymap, e.code)) {
+        case 'toggle-pause':
+          e.preventDefault();
+          togglePause();
+          break;
+        case 'next-slide':
+          e.preventDefault();
+          onComplete();
+          break;
+        case 'exit':
+          e.preventDefault();
+          onHold();
+          break;
+      }
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [keymap, togglePause, onComplete, onHold]);
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.content}>
+        {logoUrl ? (
+          <img src={logoUrl} alt={eventName} className={styles.logo} draggable={false} />
+        ) : (
+          <h1 className={styles.eventName}>{eventName || 'Cafe 2035'}</h1>
+        )}
+
+        <div className={styles.card}>
+          <span className={styles.cardLabel}>Next up</span>
+          <span className={styles.storyName}>{nextUp.storyName || nextUp.fileName}</span>
+          {nextUp.speakerName && <span className={styles.speakerName}>{nextUp.speakerName}</span>}
+        </div>
+
+        <div className={`${styles.countdown} ${pausedLeftMs !== null ? styles.countdownPaused : ''}`}>
+          {formatClock(remainingMs)}
+        </div>
+        {remainingAfter > 0 && (
+          <p className={styles.later}>
+            {remainingAfter} more {remainingAfter === 1 ? 'talk' : 'talks'} after this one
+          </p>
+        )}
+      </div>
+
+      <div className={styles.controls}>
+        <button className={styles.controlButton} onClick={togglePause}>
+          {pausedLeftMs !== null ? 'Resume' : 'Pause'}
+        </button>
+        <button className={styles.controlButton} onClick={onComplete}>
+          Start now
+        </button>
+        <button className={styles.controlButton} onClick={onSkip}>
+          Skip talk
+        </button>
+        <button className={styles.controlButton} onClick={onHold}>
+          Hold
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import type { KeyAction, Keymap } from '../lib/keymap';
+import { KEY_ACTIONS, bindKey, unbindKey, formatKeyCode, getKeyAction, isReservedCode } from '../lib/keymap';
+import styles from './KeyboardHelp.module.css';
+
+interface KeyboardHelpProps {
+  keymap: Keymap;
+  onChange: (keymap: Keymap) => void;
+  onReset: () => void;
+  onClose: () => void;
+  /** Fixed bindings of the current screen, listed after the remappable ones */
+  extraBindings?: { keys: string; label: string }[];
+}
+
+/**
+ * `?` overlay listing the bindings. While open it swallows every key press,
+ * so the screen underneath doesn't react; "+" records the next key pressed.
+ */
+export function KeyboardHelp({ keymap, onChange, onReset, onClose, extraBindings = [] }: KeyboardHelpProps) {
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      if (capturing) {
+        e.preventDefault();
+        if (e.code !== 'Escape' && !isReservedCode(e.code)) {
+          onChange(bindKey(keymap, capturing, e.code));
+        }
+        setCapturing(null);
+        return;
+      }
+      if (e.code === 'Tab' || e.code === 'Enter') return; // let buttons work
+      e.preventDefault();
+      const action = getKeyAction(keymap, e.code);
+      if (e.code === 'Escape' || action === 'help' || action === 'exit') onClose();
+    };
+    // Capture phase: runs before the screen's own document listener
+    window.addEventListener('keydown', handler, true);
+    return () => window.removeEventListener('keydown', handler, true);
+  }, [capturing, keymap, onChange, onClose]);
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Keyboard &amp; clicker</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">×</button>
+        </div>
+
+        <div className={styles.rows}>
+          {KEY_ACTIONS.map(({ action, label }) => (
+            <div key={action} className={styles.row}>
+              <span className={styles.label}>{label}</span>
+              <span className={styles.keys}>
+                {keymap[action].map((code) => (
+                  <button
+                    key={code}
+                    className={styles.key}
+                    onClick={() => onChange(unbindKey(keymap, action, code))}
+                    title="Remove this key"
+                  >
+                    {formatKeyCode(code)}
+                  </button>
+                ))}
+                <button
+                  className={`${styles.addKey} ${capturing === action ? styles.addKeyActive : ''}`}
+                  onClick={() => setCapturing(capturing === action ? null : action)}
+                >
+                  {capturing === action ? 'Press a key…' : '+'}
+                </button>
+              </span>
+            </div>
+          ))}
+          {extraBindings.map(({ keys, label }) => (
+            <div key={label} className={styles.row}>
+              <span className={styles.label}>{label}</span>
+              <span className={styles.keys}>
+                <span className={`${styles.key} ${styles.keyFixed}`}>{keys}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className={styles.footer}>
+          <span className={styles.hint}>Click a key to remove it. Saved on this device.</span>
+          <button className={styles.resetButton} onClick={onReset}>Reset to defaults</button>
+        </div>
+      </div>
+    </div>
+  );
+}
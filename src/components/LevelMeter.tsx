@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { meterPosition } from '../lib/audioInput';
+import styles from './LevelMeter.module.css';
+
+interface LevelMeterProps {
+  /** Current input level in dBFS; polled every frame */
+  getLevelDb: () => number;
+  className?: string;
+}
+
+/** Live input level bar; paints straight to the DOM, so it doesn't re-render */
+export function LevelMeter({ getLevelDb, className }: LevelMeterProps) {
+  const fillRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      // Clipped rather than scaled, so the colours stay at their levels
+      const hidden = 100 - meterPosition(getLevelDb()) * 100;
+      if (fillRef.current) fillRef.current.style.clipPath = `inset(0 ${hidden}% 0 0)`;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getLevelDb]);
+
+  return (
+    <div className={`${styles.meter} ${className ?? ''}`} role="meter" aria-label="Microphone level">
+      <div ref={fillRef} className={styles.fill} />
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
-import { useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { EventPresentation } from '../types';
+import { useKeymap } from '../hooks/useKeymap';
+import { getKeyAction } from '../lib/keymap';
+import { KeyboardHelp } from './KeyboardHelp';
+import { MicCheck } from './MicCheck';
 import styles from './LogoSplash.module.css';
 
+const LINEUP_EXTRA_BINDINGS = [
+  { keys: '⏎', label: 'Play the selected talk' },
+];
+
 interface LogoSplashProps {
   logoUrl: string | null;
   eventName: string;
@@ -16,6 +24,12 @@ interface LogoSplashProps {
   onDownloadRecording?: (presId: string, fileName: string) => void;
   onDownloadMp4?: (presId: string, fileName: string) => void;
   onExit: () => void;
+  onOpenPresenter?: () => void;
+  onOpenRemote?: () => void;
+  autopilot?: boolean;
+  onToggleAutopilot?: () => void;
+  /** A dialog is open over the lineup; its keys are not for the lineup */
+  dialogOpen?: boolean;
 }
 
 export function LogoSplash({
@@ -32,20 +46,73 @@ export function LogoSplash({
   onDownloadRecording,
   onDownloadMp4,
   onExit,
+  onOpenPresenter,
+  onOpenRemote,
+  autopilot = false,
+  onToggleAutopilot,
+  dialogOpen = false,
 }: LogoSplashProps) {
   const allPlayed = presentations.length > 0 && presentations.every((p) => playedIds.has(p.id));
 
-  // Keyboard: Escape = Exit
+  const { keymap, updateKeymap, resetKeymap } = useKeymap();
+  const [helpOpen, setHelpOpen] = useState(false);
+  const presButtonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Keyboard: slide keys move through the lineup, start key plays, exit key closes
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if (e.code === 'Escape') {
-        e.preventDefault();
-        onExit();
+      if (dialogOpen || helpOpen) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      // Recording previews and the mic controls handle their own arrows and Space
+      if (e.target instanceof HTMLVideoElement || e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) return;
+
+      const action = getKeyAction(keymap, e.code);
+      if (!action) return;
+
+      const buttons = presButtonRefs.current.slice(0, presentations.length);
+      const focused = buttons.findIndex((b) => b === document.activeElement);
+      const focusAt = (index: number) => {
+        buttons[Math.max(0, Math.min(index, buttons.length - 1))]?.focus();
+      };
+
+      switch (action) {
+        case 'next-slide':
+          e.preventDefault();
+          // First press lands on the next talk due, not the top of the list
+          if (focused === -1) focusAt(Math.max(0, presentations.findIndex((p) => !playedIds.has(p.id))));
+          else focusAt(focused + 1);
+          break;
+        case 'prev-slide':
+          e.preventDefault();
+          focusAt(focused === -1 ? buttons.length - 1 : focused - 1);
+          break;
+        case 'first-slide':
+          e.preventDefault();
+          focusAt(0);
+          break;
+        case 'last-slide':
+          e.preventDefault();
+          focusAt(buttons.length - 1);
+          break;
+        case 'toggle-pause': {
+          e.preventDefault();
+          const pres = presentations[focused] ?? presentations.find((p) => !playedIds.has(p.id));
+          if (pres) onPlay(pres.id);
+          break;
+        }
+        case 'exit':
+          e.preventDefault();
+          onExit();
+          break;
+        case 'help':
+          e.preventDefault();
+          setHelpOpen(true);
+          break;
       }
     };
     document.addEventListener('keydown', handler);
     return () => document.removeEventListener('keydown', handler);
-  }, [onExit]);
+  }, [keymap, presentations, playedIds, onPlay, onExit, dialogOpen, helpOpen]);
 
   const handleFullscreen = useCallback((presId: string) => {
     const video = document.querySelector(`video[data-rec-id="${presId}"]`) as HTMLVideoElement | null;
@@ -70,7 +137,7 @@ export function LogoSplash({
           )}
 
           <div className={styles.presList}>
-            {presentations.map((pres) => {
+            {presentations.map((pres, index) => {
               const played = playedIds.has(pres.id);
               const name = pres.storyName || pres.speakerName || pres.fileName;
               const speaker = pres.storyName && pres.speakerName ? pres.speakerName : null;
@@ -84,6 +151,7 @@ export function LogoSplash({
               return (
                 <div key={pres.id} className={styles.presWrapper}>
                   <button
+                    ref={(el) => { presButtonRefs.current[index] = el; }}
                     className={`${styles.presButton} ${played ? styles.presPlayed : ''}`}
                     onClick={() => onPlay(pres.id)}
                   >
@@ -194,11 +262,36 @@ export function LogoSplash({
             })}
           </div>
 
+          {recordEnabled && !allPlayed && <MicCheck />}
+
           <p className={styles.letsGo}>See 2035.</p>
 
-          <button className={styles.exitButton} onClick={onExit}>
-            Close the Window
-          </button>
+          <div className={styles.footerButtons}>
+            {onToggleAutopilot && !allPlayed && (
+              <button
+                className={`${styles.exitButton} ${autopilot ? styles.autopilotOn : ''}`}
+                onClick={onToggleAutopilot}
+              >
+                {autopilot ? 'Stop Autopilot' : 'Start Autopilot'}
+              </button>
+            )}
+            {onOpenPresenter && (
+              <button className={styles.exitButton} onClick={onOpenPresenter}>
+                Presenter View
+              </button>
+            )}
+            {onOpenRemote && (
+              <button className={styles.exitButton} onClick={onOpenRemote}>
+                Phone Remote
+              </button>
+            )}
+            <button className={styles.exitButton} onClick={() => setHelpOpen(true)}>
+              Shortcuts
+            </button>
+            <button className={styles.exitButton} onClick={onExit}>
+              Close the Window
+            </button>
+          </div>
         </div>
       </div>
 
@@ -210,6 +303,16 @@ export function LogoSplash({
           </span>
         )}
       </div>
+
+      {helpOpen && (
+        <KeyboardHelp
+          keymap={keymap}
+          onChange={updateKeymap}
+          onReset={resetKeymap}
+          onClose={() => setHelpOpen(false)}
+          extraBindings={LINEUP_EXTRA_BINDINGS}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { AudioInputSettings, InputChain } from '../lib/audioInput';
+import {
+  MIN_INPUT_GAIN, MAX_INPUT_GAIN, loadAudioInput, saveAudioInput, listAudioInputs, openMicrophone,
+  connectInputChain, readLevelDb,
+} from '../lib/audioInput';
+import { LevelMeter } from './LevelMeter';
+import styles from './MicCheck.module.css';
+
+/**
+ * Mic picker, gain and live level for the lineup screen. The choice is
+ * remembered on this device and used for every recording.
+ */
+export function MicCheck() {
+  const [settings, setSettings] = useState<AudioInputSettings>(loadAudioInput);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const chainRef = useRef<InputChain | null>(null);
+  // Read when the mic (re)opens; the slider sets the live node directly
+  const gainRef = useRef(settings.gain);
+  const bufferRef = useRef(new Float32Array(1024));
+
+  // Reopened whenever another mic is picked
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    const ctx = new AudioContext();
+    openMicrophone(settings.deviceId)
+      .then(async (opened) => {
+        if (cancelled) {
+          opened.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = opened;
+        chainRef.current = connectInputChain(ctx, opened, gainRef.current);
+        ctx.resume().catch(() => {});
+        setError(null);
+        // Device names only show once the page has mic permission
+        const inputs = await listAudioInputs();
+        if (!cancelled) setDevices(inputs);
+      })
+      .catch(() => {
+        if (!cancelled) setError('No microphone, or access was blocked');
+      });
+    return () => {
+      cancelled = true;
+      chainRef.current = null;
+      stream?.getTracks().forEach((t) => t.stop());
+      ctx.close().catch(() => {});
+    };
+  }, [settings.deviceId]);
+
+  // Mics plugged in or out while the lineup is up
+  useEffect(() => {
+    const refresh = () => {
+      listAudioInputs().then(setDevices).catch(() => {});
+    };
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const getLevelDb = useCallback(() => {
+    const chain = chainRef.current;
+    return chain ? readLevelDb(chain.analyser, bufferRef.current) : -Infinity;
+  }, []);
+
+  const update = useCallback((patch: Partial<AudioInputSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...patch };
+      saveAudioInput(next);
+      return next;
+    });
+  }, []);
+
+  const handleGain = useCallback((gain: number) => {
+    gainRef.current = gain;
+    if (chainRef.current) chainRef.current.gain.gain.value = gain;
+    update({ gain });
+  }, [update]);
+
+  return (
+    <div className={styles.micCheck}>
+      <select
+        className={styles.select}
+        value={settings.deviceId ?? ''}
+        onChange={(e) => update({ deviceId: e.target.value || null })}
+        aria-label="Microphone"
+      >
+        <option value="">System default mic</option>
+        {devices.map((d, i) => (
+          <option key={d.deviceId || i} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+        ))}
+      </select>
+      <LevelMeter getLevelDb={getLevelDb} />
+      <label className={styles.gain}>
+        Gain
+        <input
+          type="range"
+          min={MIN_INPUT_GAIN * 100}
+          max={MAX_INPUT_GAIN * 100}
+          step={5}
+          value={Math.round(settings.gain * 100)}
+          onChange={(e) => handleGain(e.target.valueAsNumber / 100)}
+        />
+        <span className={styles.gainValue}>{Math.round(settings.gain * 100)}%</span>
+      </label>
+      {error && <span className={styles.error}>{error}</span>}
+    </div>
+  );
+}
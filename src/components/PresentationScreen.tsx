@@ -1,18 +1,35 @@
-import { useRef, useState, useEffect, useCallback } from 'react';
-import type { LoadedDeck } from '../types';
-import type { OverlayInfo } from '../hooks/useMediaRecorder';
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import type { AudioCueSettings, LoadedDeck, SlideDurations, RecordingQuality, SlideFitSettings, TalkFormat } from '../types';
+import type { OverlayInfo, RecordingCamera, RecordingPersistTarget } from '../hooks/useMediaRecorder';
+import type { ShowCommand, TalkStatus } from '../lib/showChannel';
+import type { RunLogEvent } from '../lib/runLog';
 import { useFullscreen } from '../hooks/useFullscreen';
 import { usePresentationTimer } from '../hooks/usePresentationTimer';
 import { useMediaRecorder } from '../hooks/useMediaRecorder';
+import { useShowChannel } from '../hooks/useShowChannel';
+import { useKeymap } from '../hooks/useKeymap';
+import { useAudioCues } from '../hooks/useAudioCues';
+import { formatKeyCode, getDigit, getKeyAction } from '../lib/keymap';
+import { DEFAULT_TALK_FORMAT, formatClock, formatTotalLabel, getTotalDurationMs, getSlideDurationsMs } from '../lib/talkFormat';
+import { DEFAULT_SLIDE_FIT } from '../lib/slideFit';
+import { getSlideBitmap } from '../lib/slideResources';
 import { SlideCanvas } from './SlideCanvas';
 import { ControlsOverlay } from './ControlsOverlay';
+import { LevelMeter } from './LevelMeter';
+import { KeyboardHelp } from './KeyboardHelp';
 import styles from './PresentationScreen.module.css';
 
-const SLIDE_DURATION_MS = 15_000;
-const TOTAL_SLIDES = 20;
+const SLIDE_ENTRY_TIMEOUT_MS = 3000;
+const RESTART_CONFIRM_MS = 2000;
+
+const PRESENTATION_EXTRA_BINDINGS = [
+  { keys: '1–99 ⏎', label: 'Jump to slide number' },
+];
 
 interface PresentationScreenProps {
   deck: LoadedDeck;
+  format?: TalkFormat;
+  slideDurations?: SlideDurations;
   eventName?: string;
   storyName?: string;
   speakerName?: string;
@@ -22,10 +39,33 @@ interface PresentationScreenProps {
   recordingEnabled?: boolean;
   onRecordingComplete?: (blob: Blob) => void;
   audioStream?: MediaStream | null;
+  /** Speaker camera for a picture-in-picture tile in the recording */
+  camera?: RecordingCamera | null;
+  /** When set, the talk is mirrored to (and controllable from) other windows of this event */
+  eventId?: string;
+  presId?: string;
+  relayUrl?: string | null;
+  relayToken?: string | null;
+  /** Receives what happens on stage, for the event's run log */
+  onLog?: (event: RunLogEvent) => void;
+  /** Crash recovery: start part-way through, stream the recording, report progress */
+  resumeAtMs?: number;
+  recordingPersist?: RecordingPersistTarget;
+  onCheckpoint?: (progress: { currentSlide: number; talkElapsedMs: number }) => void;
+  /** Speaker cues; none when unset */
+  audioCues?: AudioCueSettings;
+  /** Play the sound of video slides */
+  mediaAudio?: boolean;
+  /** How slides of another shape fill the stage, on screen and in the recording */
+  slideFit?: SlideFitSettings;
+  /** Frame size, frame rate and bitrate of the recording */
+  recordingQuality?: RecordingQuality;
 }
 
 export function PresentationScreen({
   deck,
+  format = DEFAULT_TALK_FORMAT,
+  slideDurations,
   eventName = '',
   storyName = '',
   speakerName = '',
@@ -35,12 +75,33 @@ export function PresentationScreen({
   recordingEnabled = false,
   onRecordingComplete,
   audioStream,
+  camera,
+  eventId,
+  presId = '',
+  relayUrl,
+  relayToken,
+  onLog,
+  resumeAtMs,
+  recordingPersist,
+  onCheckpoint,
+  audioCues,
+  mediaAudio = false,
+  slideFit = DEFAULT_SLIDE_FIT,
+  recordingQuality,
 }: PresentationScreenProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const { isFullscreen, requestFullscreen, exitFullscreen } = useFullscreen();
   const recorder = useMediaRecorder();
+  const { start: startCues, play: playCue } = useAudioCues(audioCues);
   const recorderStartedRef = useRef(false);
   const [waiting, setWaiting] = useState(true);
+  const slideDurationsMs = useMemo(
+    () => getSlideDurationsMs(format, slideDurations),
+    [format, slideDurations],
+  );
+  const totalSlides = slideDurationsMs.length;
+  const totalDurationMs = slideDurationsMs.reduce((sum, d) => sum + d, 0);
+  const totalLabel = formatTotalLabel(format);
 
   // Stop recording helper — returns blob
   const finalizeRecording = useCallback(async () => {
@@ -53,6 +114,7 @@ export function PresentationScreen({
   }, [recorder, onRecordingComplete]);
 
   const handleFinish = useCallback(() => {
+    onLog?.({ kind: 'talk-finish', slide: totalSlides - 1, talkElapsedMs: totalDurationMs });
     // Stop recording before finishing
     const finish = async () => {
       await finalizeRecording();
@@ -65,13 +127,31 @@ export function PresentationScreen({
       }, 2000);
     };
     finish();
-  }, [exitFullscreen, onExit, onFinish, finalizeRecording]);
+  }, [exitFullscreen, onExit, onFinish, finalizeRecording, onLog, totalSlides, totalDurationMs]);
 
   const {
     timerState,
+    pause,
     togglePause,
     resume,
-  } = usePresentationTimer(handleFinish, !waiting);
+    nextSlide,
+    prevSlide,
+    goToSlide,
+    reset,
+  } = usePresentationTimer(slideDurationsMs, handleFinish, !waiting, onLog, resumeAtMs);
+
+  // Slide a resumed talk picks up on
+  const resumeSlide = useMemo(() => {
+    if (!resumeAtMs) return 0;
+    let start = 0;
+    for (let i = 0; i < slideDurationsMs.length; i++) {
+      start += slideDurationsMs[i];
+      if (start > resumeAtMs) return i;
+    }
+    return slideDurationsMs.length - 1;
+  }, [resumeAtMs, slideDurationsMs]);
+
+  const slideDurationMs = slideDurationsMs[timerState.currentSlide];
 
   // Request fullscreen on mount (only for standalone mode)
   useEffect(() => {
@@ -89,14 +169,18 @@ export function PresentationScreen({
   }, [isFullscreen, requestFullscreen, exitFullscreen]);
 
   const handleStart = useCallback(() => {
+    onLog?.(resumeAtMs
+      ? { kind: 'recovered', slide: resumeSlide, talkElapsedMs: resumeAtMs }
+      : { kind: 'talk-start', slide: 0, talkElapsedMs: 0 });
     setWaiting(false);
     resume();
+    const cueStream = startCues();
     // Start recording when the talk begins
     if (recordingEnabled && !recorderStartedRef.current) {
       recorderStartedRef.current = true;
-      recorder.startRecording(deck.slides, audioStream);
+      recorder.startRecording(deck.slides, audioStream, recordingPersist, cueStream, slideFit, camera, recordingQuality);
     }
-  }, [resume, recordingEnabled, recorder, deck.slides, audioStream]);
+  }, [resume, recordingEnabled, recorder, deck.slides, audioStream, onLog, resumeAtMs, resumeSlide, recordingPersist, startCues, slideFit, camera, recordingQuality]);
 
   const handleStartFullscreen = useCallback(() => {
     if (containerRef.current) {
@@ -105,33 +189,68 @@ export function PresentationScreen({
     handleStart();
   }, [requestFullscreen, handleStart]);
 
+  // Freeze holds the stage, and the recording with it, while the timer runs on
+  const [frozenSlide, setFrozenSlide] = useState<number | null>(null);
+  const shownSlide = frozenSlide ?? timerState.currentSlide;
+
   // Build current overlay info for the recorder
   const makeOverlay = useCallback((): OverlayInfo => ({
     eventTitle: eventName,
     storyName,
     speakerName,
     currentSlide: timerState.currentSlide,
-    totalSlides: TOTAL_SLIDES,
-    slideSecondsLeft: Math.ceil((SLIDE_DURATION_MS - timerState.slideElapsed) / 1000),
-  }), [eventName, storyName, speakerName, timerState.currentSlide, timerState.slideElapsed]);
+    totalSlides,
+    slideDurationsMs,
+    slideSecondsLeft: Math.ceil((slideDurationMs - timerState.slideElapsed) / 1000),
+    totalLabel,
+  }), [eventName, storyName, speakerName, timerState.currentSlide, timerState.slideElapsed, totalSlides, slideDurationsMs, slideDurationMs, totalLabel]);
 
-  // Draw slide to recording canvas on slide change
+  // Draw slide to recording canvas on slide change (once per boundary, not per tick)
+  const drawnSlideRef = useRef(-1);
+  // The stage's clip, so the recording carries its picture and sound
+  const stageVideoRef = useRef<HTMLVideoElement>(null);
   useEffect(() => {
-    if (recorderStartedRef.current && recorder.isRecording) {
-      recorder.drawSlide(deck.slides[timerState.currentSlide], makeOverlay());
-    }
-  }, [timerState.currentSlide, recorder, deck.slides, makeOverlay]);
+    if (!recorderStartedRef.current || !recorder.isRecording) return;
+    if (drawnSlideRef.current === shownSlide) return;
+    drawnSlideRef.current = shownSlide;
+    recorder.drawSlide(deck.slides[shownSlide], makeOverlay(), stageVideoRef.current);
+  }, [shownSlide, recorder, deck.slides, makeOverlay]);
+
+  // Decode the next slide while this one is up, so the change paints at once
+  useEffect(() => {
+    const next = deck.slides[timerState.currentSlide + 1];
+    if (next) getSlideBitmap(next);
+  }, [timerState.currentSlide, deck.slides]);
 
   // Update overlay every second for timer countdown
   const prevSecondsRef = useRef(-1);
   useEffect(() => {
     if (!recorderStartedRef.current || !recorder.isRecording) return;
-    const secsLeft = Math.ceil((SLIDE_DURATION_MS - timerState.slideElapsed) / 1000);
+    const secsLeft = Math.ceil((slideDurationMs - timerState.slideElapsed) / 1000);
     if (secsLeft !== prevSecondsRef.current) {
       prevSecondsRef.current = secsLeft;
       recorder.updateOverlay(makeOverlay());
     }
-  }, [timerState.slideElapsed, recorder, makeOverlay]);
+  }, [timerState.slideElapsed, recorder, makeOverlay, slideDurationMs]);
+
+  // Speaker cues: a tick on each slide change, a chime as the talk nears its end
+  const cuedSlideRef = useRef(-1);
+  const warnedRef = useRef(false);
+  const warningMs = (audioCues?.warningSeconds ?? 0) * 1000;
+  useEffect(() => {
+    if (waiting || timerState.isFinished) return;
+    if (cuedSlideRef.current !== timerState.currentSlide) {
+      // The slide the talk starts on isn't a change
+      if (cuedSlideRef.current !== -1) playCue('slide-tick');
+      cuedSlideRef.current = timerState.currentSlide;
+    }
+    if (totalDurationMs - timerState.totalElapsed > warningMs) {
+      warnedRef.current = false;
+    } else if (!warnedRef.current) {
+      warnedRef.current = true;
+      playCue('final-warning');
+    }
+  }, [timerState, waiting, playCue, totalDurationMs, warningMs]);
 
   // Pause/resume recording with timer
   useEffect(() => {
@@ -140,53 +259,216 @@ export function PresentationScreen({
     }
   }, [timerState.isPaused, recorder]);
 
-  // Keyboard
+  // Latest timer state for handlers that shouldn't be rebuilt on every tick
+  const timerStateRef = useRef(timerState);
+  useEffect(() => {
+    timerStateRef.current = timerState;
+  });
+
+  const handleExit = useCallback(async () => {
+    const { isFinished, currentSlide, totalElapsed } = timerStateRef.current;
+    if (!waiting && !isFinished) {
+      onLog?.({ kind: 'talk-stop', slide: currentSlide, talkElapsedMs: totalElapsed });
+    }
+    await finalizeRecording();
+    if (manageFullscreen) {
+      exitFullscreen().then(onExit);
+    } else {
+      onExit();
+    }
+  }, [exitFullscreen, onExit, manageFullscreen, finalizeRecording, waiting, onLog]);
+
+  // Keyboard and clickers: remappable bindings, plus digits + Enter to jump to a slide
+  const { keymap, updateKeymap, resetKeymap } = useKeymap();
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [blackout, setBlackout] = useState(false);
+  const [slideEntry, setSlideEntry] = useState('');
+  const [restartArmed, setRestartArmed] = useState(false);
+
+  useEffect(() => {
+    if (!slideEntry) return;
+    const id = setTimeout(() => setSlideEntry(''), SLIDE_ENTRY_TIMEOUT_MS);
+    return () => clearTimeout(id);
+  }, [slideEntry]);
+
+  useEffect(() => {
+    if (!restartArmed) return;
+    const id = setTimeout(() => setRestartArmed(false), RESTART_CONFIRM_MS);
+    return () => clearTimeout(id);
+  }, [restartArmed]);
+
+  // The recording goes black with the stage
+  useEffect(() => {
+    if (recorderStartedRef.current && recorder.isRecording) recorder.setBlackout(blackout);
+  }, [blackout, recorder]);
+
+  const restartTalk = useCallback(() => {
+    setFrozenSlide(null);
+    setBlackout(false);
+    reset();
+  }, [reset]);
+
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      switch (e.code) {
-        case 'Space':
-          e.preventDefault();
-          togglePause();
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const digit = getDigit(e.code);
+      if (digit !== null) {
+        if (waiting) return;
+        e.preventDefault();
+        setSlideEntry((prev) => (prev + digit).slice(-3));
+        return;
+      }
+      if ((e.code === 'Enter' || e.code === 'NumpadEnter') && slideEntry) {
+        e.preventDefault();
+        goToSlide(Number(slideEntry) - 1);
+        setSlideEntry('');
+        return;
+      }
+
+      const action = getKeyAction(keymap, e.code);
+      if (!action) return;
+      e.preventDefault();
+      switch (action) {
+        case 'toggle-pause':
+          if (waiting) handleStart();
+          else togglePause();
+          break;
+        case 'next-slide':
+          // A clicker's "next" on the start screen begins the talk
+          if (waiting) handleStart();
+          else nextSlide();
+          break;
+        case 'prev-slide':
+          if (!waiting) prevSlide();
+          break;
+        case 'first-slide':
+          if (!waiting) goToSlide(0);
+          break;
+        case 'last-slide':
+          if (!waiting) goToSlide(totalSlides - 1);
+          break;
+        case 'restart':
+          if (waiting) break;
+          if (restartArmed) {
+            setRestartArmed(false);
+            restartTalk();
+          } else {
+            setRestartArmed(true);
+          }
+          break;
+        case 'blackout':
+          setBlackout((prev) => !prev);
+          break;
+        case 'freeze':
+          if (!waiting) setFrozenSlide((prev) => (prev === null ? timerState.currentSlide : null));
           break;
-        case 'Escape':
-          e.preventDefault();
-          (async () => {
-            await finalizeRecording();
-            if (manageFullscreen) {
-              exitFullscreen().then(onExit);
-            } else {
-              onExit();
-            }
-          })();
+        case 'exit':
+          handleExit();
+          break;
+        case 'help':
+          setHelpOpen(true);
           break;
       }
     };
     document.addEventListener('keydown', handler);
     return () => document.removeEventListener('keydown', handler);
-  }, [togglePause, exitFullscreen, onExit, manageFullscreen, finalizeRecording]);
+  }, [keymap, waiting, slideEntry, restartArmed, totalSlides, timerState.currentSlide, handleStart, togglePause, nextSlide, prevSlide, goToSlide, restartTalk, handleExit]);
 
-  const handleExit = useCallback(async () => {
-    await finalizeRecording();
-    if (manageFullscreen) {
-      exitFullscreen().then(onExit);
-    } else {
-      onExit();
+  // Presenter/remote windows: publish status, obey their commands
+  const buildStatus = useCallback((): TalkStatus => ({
+    presId,
+    storyName,
+    speakerName,
+    currentSlide: timerState.currentSlide,
+    totalSlides,
+    slideElapsed: timerState.slideElapsed,
+    slideDurationMs,
+    totalElapsed: timerState.totalElapsed,
+    totalDurationMs,
+    isWaiting: waiting,
+    isPaused: timerState.isPaused,
+    isFinished: timerState.isFinished,
+  }), [presId, storyName, speakerName, timerState, totalSlides, slideDurationMs, totalDurationMs, waiting]);
+
+  const handleCommand = useCallback((command: ShowCommand) => {
+    switch (command) {
+      case 'start':
+        if (waiting) handleStart();
+        break;
+      case 'toggle-pause':
+        if (!waiting) togglePause();
+        break;
+      case 'pause':
+        if (!waiting) pause();
+        break;
+      case 'resume':
+        if (waiting) handleStart();
+        else resume();
+        break;
+      case 'next-slide':
+        if (!waiting) nextSlide();
+        break;
+      case 'prev-slide':
+        if (!waiting) prevSlide();
+        break;
+      case 'stop':
+        handleExit();
+        break;
     }
-  }, [exitFullscreen, onExit, manageFullscreen, finalizeRecording]);
+  }, [waiting, handleStart, togglePause, pause, resume, nextSlide, prevSlide, handleExit]);
 
-  const currentSlide = deck.slides[timerState.currentSlide];
+  const sendShowMessage = useShowChannel(eventId, (message, reply) => {
+    if (message.type === 'request-status') {
+      reply({ type: 'status', talk: buildStatus() });
+    } else if (message.type === 'command') {
+      handleCommand(message.command);
+    }
+  }, relayUrl, relayToken);
+
+  // Publish on every visible change, and a few times a second while running
+  const lastStatusKeyRef = useRef('');
+  useEffect(() => {
+    const key = [
+      timerState.currentSlide,
+      timerState.isPaused,
+      timerState.isFinished,
+      waiting,
+      Math.floor(timerState.totalElapsed / 250),
+    ].join('|');
+    if (key === lastStatusKeyRef.current) return;
+    lastStatusKeyRef.current = key;
+    sendShowMessage({ type: 'status', talk: buildStatus() });
+  }, [timerState, waiting, buildStatus, sendShowMessage]);
+
+  // Checkpoint for crash recovery: on every slide change and every couple of seconds
+  const lastCheckpointKeyRef = useRef('');
+  useEffect(() => {
+    if (!onCheckpoint || waiting || timerState.isFinished) return;
+    const key = `${timerState.currentSlide}|${Math.floor(timerState.totalElapsed / 2000)}`;
+    if (key === lastCheckpointKeyRef.current) return;
+    lastCheckpointKeyRef.current = key;
+    onCheckpoint({ currentSlide: timerState.currentSlide, talkElapsedMs: timerState.totalElapsed });
+  }, [timerState, waiting, onCheckpoint]);
+
+  const currentSlide = deck.slides[shownSlide];
   const slideSecondsLeft = Math.ceil(
-    (SLIDE_DURATION_MS - timerState.slideElapsed) / 1000,
+    (slideDurationMs - timerState.slideElapsed) / 1000,
   );
 
   return (
     <div ref={containerRef} className={styles.container}>
       {waiting ? (
         <div className={styles.slideArea}>
-          <SlideCanvas slide={deck.slides[0]} className={styles.slideImage} />
+          <SlideCanvas
+            slide={deck.slides[resumeSlide]}
+            aspectRatio={deck.aspectRatio}
+            fit={slideFit}
+            className={styles.slideImage}
+          />
           <div className={styles.startOverlay}>
             <button className={styles.startButton} onClick={handleStart}>
-              Start
+              {resumeAtMs ? `Resume at slide ${resumeSlide + 1}` : 'Start'}
             </button>
             <button className={styles.startFullscreenButton} onClick={handleStartFullscreen}>
               <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -202,12 +484,21 @@ export function PresentationScreen({
       ) : timerState.isFinished ? (
         <div className={styles.endOverlay}>
           <h2 className={styles.endTitle}>Talk Complete</h2>
-          <p className={styles.endSubtitle}>5:00</p>
+          <p className={styles.endSubtitle}>{formatClock(getTotalDurationMs(format))}</p>
         </div>
       ) : (
         <>
           <div className={styles.slideArea}>
-            <SlideCanvas slide={currentSlide} className={styles.slideImage} />
+            <SlideCanvas
+              key={currentSlide.pageNumber}
+              slide={currentSlide}
+              aspectRatio={deck.aspectRatio}
+              fit={slideFit}
+              className={styles.slideImage}
+              playing={!timerState.isPaused}
+              withAudio={mediaAudio}
+              videoRef={stageVideoRef}
+            />
             <ControlsOverlay
               isPaused={timerState.isPaused}
               onTogglePause={togglePause}
@@ -217,6 +508,22 @@ export function PresentationScreen({
               <div className={styles.recordingIndicator}>
                 <span className={styles.recordingDot} />
                 <span>Live</span>
+                <LevelMeter getLevelDb={recorder.getInputLevelDb} className={styles.recordingMeter} />
+              </div>
+            )}
+            {recorder.isRecording && recorder.micSilent && (
+              <div className={styles.micSilentAlert} role="alert">
+                No sound from the microphone — check that it is on and unmuted
+              </div>
+            )}
+            {frozenSlide !== null && (
+              <div className={styles.frozenIndicator}>Frozen</div>
+            )}
+            {(slideEntry || restartArmed) && (
+              <div className={styles.keyToast}>
+                {slideEntry
+                  ? `Go to slide ${slideEntry} — press Enter`
+                  : `Press ${formatKeyCode(keymap.restart[0] ?? 'KeyR')} again to restart the talk`}
               </div>
             )}
           </div>
@@ -225,7 +532,7 @@ export function PresentationScreen({
             <span className={styles.countdown}>{slideSecondsLeft}</span>
 
             <div className={styles.segments}>
-              {Array.from({ length: TOTAL_SLIDES }, (_, i) => {
+              {Array.from({ length: totalSlides }, (_, i) => {
                 const isCompleted = i < timerState.currentSlide;
                 const isActive = i === timerState.currentSlide;
 
@@ -238,17 +545,23 @@ export function PresentationScreen({
                   .join(' ');
 
                 return (
-                  <div key={i} className={styles.segment}>
+                  <div key={i} className={styles.segment} style={{ flexGrow: slideDurationsMs[i] }}>
                     <div
                       className={fillClass}
-                      style={isCompleted ? { width: '100%' } : undefined}
+                      style={
+                        isCompleted
+                          ? { width: '100%' }
+                          : isActive
+                            ? { animationDuration: `${slideDurationsMs[i]}ms` }
+                            : undefined
+                      }
                     />
                   </div>
                 );
               })}
             </div>
 
-            <span className={styles.totalLabel}>5 min</span>
+            <span className={styles.totalLabel}>{totalLabel}</span>
 
             <button
               className={styles.fullscreenButton}
@@ -274,6 +587,18 @@ export function PresentationScreen({
           </div>
         </>
       )}
+
+      {blackout && <div className={styles.blackout} />}
+
+      {helpOpen && (
+        <KeyboardHelp
+          keymap={keymap}
+          onChange={updateKeymap}
+          onReset={resetKeymap}
+          onClose={() => setHelpOpen(false)}
+          extraBindings={PRESENTATION_EXTRA_BINDINGS}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,218 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import type { ShowCommand, TalkStatus } from '../lib/showChannel';
+import { getSlideRemainingMs, getTotalRemainingMs } from '../lib/showChannel';
+import { formatClock } from '../lib/talkFormat';
+import { getSlidePreviews } from '../lib/slideCache';
+import { useShowChannel } from '../hooks/useShowChannel';
+import { useKeymap } from '../hooks/useKeymap';
+import { getKeyAction } from '../lib/keymap';
+import styles from './PresenterScreen.module.css';
+
+const POLL_INTERVAL_MS = 5000;
+const STALE_AFTER_MS = 12_000;
+
+/** Confidence monitor: mirrors the audience window and drives its timer */
+export function PresenterScreen() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [talk, setTalk] = useState<TalkStatus | null>(null);
+  const [receivedAt, setReceivedAt] = useState(0);
+  const [lastHeardAt, setLastHeardAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  // The talk's slides, read from this browser's slide cache
+  const [previews, setPreviews] = useState<{ presId: string; urls: string[] } | null>(null);
+
+  const send = useShowChannel(eventId, (message) => {
+    if (message.type === 'status') {
+      setTalk(message.talk);
+      setReceivedAt(Date.now());
+      setLastHeardAt(Date.now());
+    } else if (message.type === 'lineup') {
+      setLastHeardAt(Date.now());
+    }
+  });
+
+  // Poll for status: doubles as a heartbeat to detect a lost event window.
+  // Background tabs throttle timers, so ask again on coming back too.
+  useEffect(() => {
+    const request = () => send({ type: 'request-status' });
+    request();
+    const id = setInterval(request, POLL_INTERVAL_MS);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(id);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [send]);
+
+  const presId = talk?.presId;
+  useEffect(() => {
+    if (!presId) return;
+    let cancelled = false;
+    let urls: string[] = [];
+    getSlidePreviews(presId).then((slides) => {
+      if (cancelled || !slides) return;
+      urls = slides.map((s) => URL.createObjectURL(s.blob));
+      setPreviews({ presId, urls });
+    }).catch((err) => console.warn('[Presenter] Could not load slides:', err));
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [presId]);
+
+  // Extrapolate the countdown between status messages
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(id);
+  }, []);
+
+  const sendCommand = useCallback((command: ShowCommand) => {
+    send({ type: 'command', command });
+  }, [send]);
+
+  // Keyboard and clickers, with this device's bindings
+  const { keymap } = useKeymap();
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!talk || e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (getKeyAction(keymap, e.code)) {
+        case 'toggle-pause':
+          e.preventDefault();
+          sendCommand(talk.isWaiting ? 'start' : 'toggle-pause');
+          break;
+        case 'next-slide':
+          e.preventDefault();
+          sendCommand(talk.isWaiting ? 'start' : 'next-slide');
+          break;
+        case 'prev-slide':
+          e.preventDefault();
+          sendCommand('prev-slide');
+          break;
+        case 'exit':
+          e.preventDefault();
+          sendCommand('stop');
+          break;
+      }
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [talk, keymap, sendCommand]);
+
+  const connected = lastHeardAt > 0 && now - lastHeardAt < STALE_AFTER_MS;
+
+  if (!talk) {
+    return (
+      <div className={styles.container}>
+        <div className={styles.idle}>
+          <p className={styles.idleTitle}>Presenter View</p>
+          <p className={styles.idleText}>
+            {connected
+              ? 'Waiting for the next talk to start…'
+              : lastHeardAt > 0
+                ? 'Lost the event window, reconnecting…'
+                : 'Waiting for the event window…'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const sinceReceivedMs = Math.max(0, now - receivedAt);
+  const slideRemainingMs = getSlideRemainingMs(talk, sinceReceivedMs);
+  const totalRemainingMs = getTotalRemainingMs(talk, sinceReceivedMs);
+  const slideSecondsLeft = Math.ceil(slideRemainingMs / 1000);
+  const isLastSlide = talk.currentSlide >= talk.totalSlides - 1;
+  const slideUrls = previews?.presId === talk.presId ? previews.urls : [];
+  const currentSlideUrl = slideUrls[talk.currentSlide];
+  const nextSlideUrl = slideUrls[talk.currentSlide + 1];
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <div className={styles.talkInfo}>
+          <span className={styles.storyName}>{talk.storyName || 'Untitled story'}</span>
+          {talk.speakerName && <span className={styles.speakerName}>{talk.speakerName}</span>}
+        </div>
+        {!connected && <span className={styles.disconnected}>Disconnected</span>}
+        <span className={styles.slideCounter}>
+          Slide {talk.currentSlide + 1} / {talk.totalSlides}
+        </span>
+      </header>
+
+      <div className={styles.main}>
+        <div className={styles.currentPane}>
+          {currentSlideUrl && (
+            <img src={currentSlideUrl} alt="Current slide" className={styles.currentSlide} draggable={false} />
+          )}
+        </div>
+
+        <aside className={styles.sidePane}>
+          <div className={styles.nextPane}>
+            <span className={styles.paneLabel}>Next</span>
+            {isLastSlide ? (
+              <div className={styles.endCard}>End of talk</div>
+            ) : nextSlideUrl && (
+              <img src={nextSlideUrl} alt="Next slide" className={styles.nextSlide} draggable={false} />
+            )}
+          </div>
+
+          <div className={`${styles.countdown} ${slideSecondsLeft <= 3 && !talk.isWaiting ? styles.countdownUrgent : ''}`}>
+            {talk.isFinished ? '0' : slideSecondsLeft}
+          </div>
+
+          <div className={styles.totalLeft}>
+            <span className={styles.paneLabel}>Talk left</span>
+            <span className={styles.totalValue}>{formatClock(totalRemainingMs)}</span>
+          </div>
+
+          <div className={styles.status}>
+            {talk.isFinished
+              ? 'Talk complete'
+              : talk.isWaiting
+                ? 'Ready — not started'
+                : talk.isPaused
+                  ? 'Paused'
+                  : isLastSlide
+                    ? 'Last slide'
+                    : 'Live'}
+          </div>
+        </aside>
+      </div>
+
+      <footer className={styles.controls}>
+        <button
+          className={styles.controlButton}
+          onClick={() => sendCommand('prev-slide')}
+          disabled={talk.isWaiting || talk.currentSlide === 0}
+        >
+          Previous
+        </button>
+        <button
+          className={`${styles.controlButton} ${styles.controlPrimary}`}
+          onClick={() => sendCommand(talk.isWaiting ? 'start' : 'toggle-pause')}
+          disabled={talk.isFinished}
+        >
+          {talk.isWaiting ? 'Start' : talk.isPaused ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          className={styles.controlButton}
+          onClick={() => sendCommand('next-slide')}
+          disabled={talk.isWaiting || isLastSlide}
+        >
+          Next
+        </button>
+        <button
+          className={`${styles.controlButton} ${styles.controlDanger}`}
+          onClick={() => sendCommand('stop')}
+          disabled={talk.isFinished}
+        >
+          Stop
+        </button>
+      </footer>
+    </div>
+  );
+}
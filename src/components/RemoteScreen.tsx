@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import type { LineupStatus, ShowCommand, TalkStatus } from '../lib/showChannel';
+import {
+  getSlideRemainingMs, getTotalRemainingMs, getStoredRelayUrl, setStoredRelayUrl, getStoredRelayToken, setStoredRelayToken,
+} from '../lib/showChannel';
+import { formatClock } from '../lib/talkFormat';
+import { useShowChannel } from '../hooks/useShowChannel';
+import styles from './RemoteScreen.module.css';
+
+const POLL_INTERVAL_MS = 5000;
+const STALE_AFTER_MS = 12_000;
+
+/** Phone remote for the MC: drives the event window over the show channel */
+export function RemoteScreen() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [searchParams] = useSearchParams();
+  const relayUrl = searchParams.get('relay') ?? getStoredRelayUrl();
+  const relayToken = searchParams.get('token') ?? (eventId ? getStoredRelayToken(eventId) : null);
+
+  const [talk, setTalk] = useState<TalkStatus | null>(null);
+  const [lineup, setLineup] = useState<LineupStatus | null>(null);
+  const [receivedAt, setReceivedAt] = useState(0);
+  const [lastHeardAt, setLastHeardAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Remember the relay so the bare remote link keeps working on this phone
+  useEffect(() => {
+    const fromLink = searchParams.get('relay');
+    if (fromLink) setStoredRelayUrl(fromLink);
+    const tokenFromLink = searchParams.get('token');
+    if (tokenFromLink && eventId) setStoredRelayToken(eventId, tokenFromLink);
+  }, [searchParams, eventId]);
+
+  const send = useShowChannel(eventId, (message) => {
+    if (message.type === 'status') {
+      setTalk(message.talk);
+      setReceivedAt(Date.now());
+      setLastHeardAt(Date.now());
+    } else if (message.type === 'lineup') {
+      setLineup(message.lineup);
+      setLastHeardAt(Date.now());
+    }
+  }, relayUrl, relayToken);
+
+  // Poll for status: doubles as a heartbeat to detect a lost event window
+  useEffect(() => {
+    send({ type: 'request-status' });
+    const id = setInterval(() => send({ type: 'request-status' }), POLL_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [send]);
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+
+  const sendCommand = useCallback((command: ShowCommand) => {
+    navigator.vibrate?.(20);
+    send({ type: 'command', command });
+  }, [send]);
+
+  const connected = lastHeardAt > 0 && now - lastHeardAt < STALE_AFTER_MS;
+  const sinceReceivedMs = Math.max(0, now - receivedAt);
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <span className={styles.eventName}>{lineup?.eventName || 'Remote'}</span>
+        <span className={`${styles.connection} ${connected ? styles.connectionOn : ''}`}>
+          {connected ? 'Connected' : 'Searching…'}
+        </span>
+      </header>
+
+      {talk ? (
+        <>
+          <div className={styles.talkInfo}>
+            <span className={styles.storyName}>{talk.storyName || 'Untitled story'}</span>
+            {talk.speakerName && <span className={styles.speakerName}>{talk.speakerName}</span>}
+          </div>
+
+          <div className={styles.clock}>
+            <span className={styles.countdown}>
+              {talk.isFinished ? 0 : Math.ceil(getSlideRemainingMs(talk, sinceReceivedMs) / 1000)}
+            </span>
+            <span className={styles.clockMeta}>
+              Slide {talk.currentSlide + 1} / {talk.totalSlides} · {formatClock(getTotalRemainingMs(talk, sinceReceivedMs))} left
+              {talk.isPaused && ' · Paused'}
+            </span>
+          </div>
+
+          <div className={styles.buttons}>
+            <button
+              className={`${styles.button} ${styles.buttonPrimary} ${styles.buttonWide}`}
+              onClick={() => sendCommand(talk.isWaiting ? 'start' : 'toggle-pause')}
+              disabled={talk.isFinished}
+            >
+              {talk.isWaiting ? 'Start' : talk.isPaused ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              className={styles.button}
+              onClick={() => sendCommand('prev-slide')}
+              disabled={talk.isWaiting || talk.currentSlide === 0}
+            >
+              ‹ Prev
+            </button>
+            <button
+              className={styles.button}
+              onClick={() => sendCommand('next-slide')}
+              disabled={talk.isWaiting || talk.currentSlide >= talk.totalSlides - 1}
+            >
+              Next ›
+            </button>
+            <button
+              className={`${styles.button} ${styles.buttonDanger} ${styles.buttonWide}`}
+              onClick={() => sendCommand('stop')}
+              disabled={talk.isFinished}
+            >
+              Stop talk
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className={styles.talkInfo}>
+            {lineup?.nextUp ? (
+              <>
+                <span className={styles.nextLabel}>Next up</span>
+                <span className={styles.storyName}>{lineup.nextUp.storyName || 'Untitled story'}</span>
+                {lineup.nextUp.speakerName && <span className={styles.speakerName}>{lineup.nextUp.speakerName}</span>}
+              </>
+            ) : (
+              <span className={styles.speakerName}>
+                {lineup && lineup.totalCount > 0 ? 'All talks delivered' : 'No talk running'}
+              </span>
+            )}
+          </div>
+
+          <div className={styles.buttons}>
+            <button
+              className={`${styles.button} ${styles.buttonPrimary} ${styles.buttonWide}`}
+              onClick={() => sendCommand('play-next')}
+              disabled={!connected || !lineup?.nextUp}
+            >
+              Play next talk
+            </button>
+          </div>
+        </>
+      )}
+
+      {lineup && lineup.totalCount > 0 && (
+        <footer className={styles.footer}>
+          {lineup.playedCount} / {lineup.totalCount} talks played
+        </footer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { IgniteEvent, EventPresentation, RunLogEntry } from '../types';
+import { getEvent, getEventPresentations, getRunLog, clearRunLog } from '../lib/db';
+import { getEventFormat, getSlideDurationsMs, getTotalDurationMs, formatClock } from '../lib/talkFormat';
+import { RUN_LOG_KIND_LABELS, summarizeRunLog, runLogToCsv } from '../lib/runLog';
+import styles from './RunReportScreen.module.css';
+
+// Overruns shorter than this are just the speaker finishing a sentence
+const OVERRUN_TOLERANCE_MS = 5000;
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatSignedClock(ms: number): string {
+  return `${ms < 0 ? '−' : '+'}${formatClock(Math.abs(ms))}`;
+}
+
+function downloadFile(content: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** One line of detail for a log entry; slides are shown 1-based */
+function describeEntry(entry: RunLogEntry): string {
+  const parts: string[] = [];
+  if (entry.kind === 'slide-jump' && entry.slide !== undefined && entry.toSlide !== undefined) {
+    parts.push(`slide ${entry.slide + 1} → ${entry.toSlide + 1}`);
+  } else if (entry.slide !== undefined && entry.kind !== 'talk-start') {
+    parts.push(`slide ${entry.slide + 1}`);
+  }
+  if (entry.talkElapsedMs !== undefined && entry.kind !== 'talk-start') {
+    parts.push(`at ${formatClock(entry.talkElapsedMs)}`);
+  }
+  if (entry.pausedMs !== undefined) {
+    parts.push(`after ${formatClock(entry.pausedMs)} paused`);
+  }
+  return parts.join(' · ');
+}
+
+/** Post-event report: what actually happened on stage, from the run log */
+export function RunReportScreen() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const navigate = useNavigate();
+  const [event, setEvent] = useState<IgniteEvent | null>(null);
+  const [presentations, setPresentations] = useState<EventPresentation[]>([]);
+  const [entries, setEntries] = useState<RunLogEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!eventId) return;
+    let cancelled = false;
+    (async () => {
+      const [ev, pres, log] = await Promise.all([
+        getEvent(eventId),
+        getEventPresentations(eventId),
+        getRunLog(eventId),
+      ]);
+      if (cancelled) return;
+      setEvent(ev ?? null);
+      setPresentations(pres);
+      setEntries(log);
+    })();
+    return () => { cancelled = true; };
+  }, [eventId]);
+
+  const format = getEventFormat(event);
+  const runs = useMemo(() => summarizeRunLog(entries ?? []), [entries]);
+
+  // Planned length of a talk, from its current timing (the whole format if it was deleted)
+  const getPlannedMs = useCallback((presId: string) => {
+    const pres = presentations.find((p) => p.id === presId);
+    if (!pres) return getTotalDurationMs(format);
+    return getSlideDurationsMs(format, pres.slideDurations).reduce((sum, d) => sum + d, 0);
+  }, [presentations, format]);
+
+  const baseName = `${event?.name || 'event'}-run-log`.replace(/[^a-z0-9-]+/gi, '-').toLowerCase();
+
+  const handleExportCsv = useCallback(() => {
+    if (!entries) return;
+    downloadFile(runLogToCsv(entries), 'text/csv', `${baseName}.csv`);
+  }, [entries, baseName]);
+
+  const handleExportJson = useCallback(() => {
+    if (!entries) return;
+    const report = {
+      event: event && { id: event.id, name: event.name, city: event.city, date: event.date, format },
+      exportedAt: new Date().toISOString(),
+      talks: runs.map((run) => ({ ...run, plannedMs: getPlannedMs(run.presId) })),
+      entries,
+    };
+    downloadFile(JSON.stringify(report, null, 2), 'application/json', `${baseName}.json`);
+  }, [entries, event, format, runs, getPlannedMs, baseName]);
+
+  const handleClear = useCallback(async () => {
+    if (!eventId || !confirm('Delete the whole run log of this event?')) return;
+    await clearRunLog(eventId);
+    setEntries([]);
+  }, [eventId]);
+
+  if (!entries) {
+    return <div className={styles.container}><div className={styles.loading}>Loading...</div></div>;
+  }
+
+  return (
+    <div className={styles.container}>
+      <header className={styles.header}>
+        <button className={styles.backButton} onClick={() => navigate(`/admin/events/${eventId}`)}>
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="15 18 9 12 15 6" />
+          </svg>
+          {event?.name || 'Gathering'}
+        </button>
+        <div className={styles.headerActions}>
+          <button className={styles.actionButton} onClick={handleExportCsv} disabled={entries.length === 0}>
+            Export CSV
+          </button>
+          <button className={styles.actionButton} onClick={handleExportJson} disabled={entries.length === 0}>
+            Export JSON
+          </button>
+        </div>
+      </header>
+
+      <h1 className={styles.title}>Run Report</h1>
+
+      {entries.length === 0 ? (
+        <p className={styles.empty}>Nothing logged yet. Talks are logged as they run.</p>
+      ) : (
+        <>
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Talks</h2>
+            <div className={styles.tableWrap}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Talk</th>
+                    <th>Start</th>
+                    <th>Length</th>
+                    <th>vs plan</th>
+                    <th>Pauses</th>
+                    <th>Jumps</th>
+                    <th>Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => {
+                    const wallMs = run.endedAt !== null ? run.endedAt - run.startedAt : null;
+                    const deltaMs = wallMs !== null ? wallMs - getPlannedMs(run.presId) : null;
+                    return (
+                      <tr key={`${run.presId}-${run.startedAt}`}>
+                        <td>
+                          <span className={styles.storyName}>{run.storyName || 'Untitled story'}</span>
+                          {run.speakerName && <span className={styles.speakerName}>{run.speakerName}</span>}
+                          {run.reRecorded && <span className={styles.tag}>re-recorded</span>}
+                          {run.recovered && <span className={styles.tag}>resumed after reload</span>}
+                        </td>
+                        <td className={styles.mono}>{formatTime(run.startedAt)}</td>
+                        <td className={styles.mono}>{wallMs !== null ? formatClock(wallMs) : '—'}</td>
+                        <td className={`${styles.mono} ${deltaMs !== null && deltaMs > OVERRUN_TOLERANCE_MS ? styles.overrun : ''}`}>
+                          {deltaMs !== null ? formatSignedClock(deltaMs) : '—'}
+                        </td>
+                        <td className={styles.mono}>
+                          {run.pauseCount > 0 ? `${run.pauseCount} · ${formatClock(run.pausedMs)}` : '—'}
+                        </td>
+                        <td className={styles.mono}>
+                          {run.jumpCount > 0 ? run.jumpCount : '—'}
+                          {run.restartCount > 0 && ` · ${run.restartCount} restart${run.restartCount > 1 ? 's' : ''}`}
+                        </td>
+                        <td className={run.outcome === 'finished' ? '' : styles.overrun}>
+                          {run.outcome === 'finished'
+                            ? 'Finished'
+                            : run.outcome === 'stopped'
+                              ? `Stopped at slide ${(run.stoppedAtSlide ?? 0) + 1}`
+                              : 'No end logged'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className={styles.section}>
+            <h2 className={styles.sectionTitle}>Log</h2>
+            <ol className={styles.log}>
+              {entries.map((entry) => (
+                <li key={entry.id} className={styles.logEntry}>
+                  <span className={styles.mono}>{formatTime(entry.at)}</span>
+                  <span className={styles.logKind}>{RUN_LOG_KIND_LABELS[entry.kind]}</span>
+                  <span className={styles.logTalk}>{entry.storyName || entry.speakerName || 'Untitled story'}</span>
+                  <span className={styles.logDetail}>{describeEntry(entry)}</span>
+                </li>
+              ))}
+            </ol>
+          </section>
+
+          <div className={styles.bottomActions}>
+            <button className={styles.clearButton} onClick={handleClear}>Clear log</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,141 @@
-import type { SlideImage } from '../types';
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { CSSProperties, RefObject } from 'react';
+import type { SlideFitSettings, SlideImage } from '../types';
+import { DEFAULT_SLIDE_FIT, SLIDE_FIT_OBJECT_FIT } from '../lib/slideFit';
+import { getSlideBitmap, peekSlideBitmap } from '../lib/slideResources';
 import styles from './SlideCanvas.module.css';
 
 interface SlideCanvasProps {
   slide: SlideImage;
+  /** Stage shape (the deck's); slides of another shape are fitted into it */
+  aspectRatio: number;
+  fit?: SlideFitSettings;
   className?: string;
+  /** Run the slide's clip or animation; otherwise its first frame is shown */
+  playing?: boolean;
+  /** Let a clip's own sound through */
+  withAudio?: boolean;
+  /** Set to the clip's element while a video slide is up */
+  videoRef?: RefObject<HTMLVideoElement | null>;
 }
 
-export function SlideCanvas({ slide, className }: SlideCanvasProps) {
+interface SlideStillProps {
+  slide: SlideImage;
+  objectFit: CSSProperties['objectFit'];
+}
+
+/**
+ * The slide's decoded bitmap, copied into a canvas so it stays up if the
+ * slide manager closes the bitmap. Until it's decoded the PNG shows instead.
+ * Keyed by slide, so the fallback is decided once per slide.
+ */
+function SlideStill({ slide, objectFit }: SlideStillProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // A decoded slide is drawn before the first paint, so no <img> is needed
+  const [fallback, setFallback] = useState(() => peekSlideBitmap(slide) === null);
+
+  useLayoutEffect(() => {
+    let cancelled = false;
+    getSlideBitmap(slide).then((bitmap) => {
+      const canvas = canvasRef.current;
+      // Closed bitmaps have no size; the <img> stays up then
+      if (cancelled || !canvas || !bitmap || bitmap.width === 0) return;
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+      setFallback(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [slide]);
+
+  return (
+    <>
+      {fallback && (
+        <img
+          src={slide.objectUrl}
+          alt={`Slide ${slide.pageNumber}`}
+          className={styles.media}
+          style={{ objectFit }}
+          draggable={false}
+        />
+      )}
+      <canvas
+        ref={canvasRef}
+        className={`${styles.media} ${styles.still}`}
+        style={{ objectFit }}
+        role="img"
+        aria-label={`Slide ${slide.pageNumber}`}
+      />
+    </>
+  );
+}
+
+export function SlideCanvas({
+  slide,
+  aspectRatio,
+  fit = DEFAULT_SLIDE_FIT,
+  className,
+  playing = false,
+  withAudio = false,
+  videoRef: stageVideoRef,
+}: SlideCanvasProps) {
+  const ownVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = stageVideoRef ?? ownVideoRef;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (playing) {
+      // Autoplay with sound can be refused before a user gesture; the poster stays up
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [playing, slide.mediaUrl, videoRef]);
+
+  const objectFit = SLIDE_FIT_OBJECT_FIT[fit.mode];
+  let media;
+  // Clips loop if shorter than the slide and are cut off by the slide change if longer
+  if (slide.mediaKind === 'video' && slide.mediaUrl) {
+    media = (
+      <video
+        ref={videoRef}
+        src={slide.mediaUrl}
+        poster={slide.objectUrl}
+        className={styles.media}
+        style={{ objectFit }}
+        muted={!withAudio}
+        loop
+        playsInline
+        preload="auto"
+        aria-label={`Slide ${slide.pageNumber}`}
+      />
+    );
+  } else if (slide.mediaKind === 'animated' && slide.mediaUrl && playing) {
+    media = (
+      <img
+        src={slide.mediaUrl}
+        alt={`Slide ${slide.pageNumber}`}
+        className={styles.media}
+        style={{ objectFit }}
+        draggable={false}
+      />
+    );
+  } else {
+    media = <SlideStill key={slide.objectUrl} slide={slide} objectFit={objectFit} />;
+  }
+
   return (
-    <img
-      src={slide.objectUrl}
-      alt={`Slide ${slide.pageNumber}`}
-      className={`${styles.slide} ${className ?? ''}`}
-      draggable={false}
-    />
+    <div className={styles.frame}>
+      <div
+        className={`${styles.stage} ${className ?? ''}`}
+        // As large as fits the frame at the deck's shape
+        style={{ aspectRatio, width: `min(100cqw, ${aspectRatio * 100}cqh)`, background: fit.background }}
+      >
+        {media}
+      </div>
+    </div>
   );
 }
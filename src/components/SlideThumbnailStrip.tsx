@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import type { TalkFormat } from '../types';
+import { getCachedSlides } from '../lib/slideCache';
+import styles from './SlideThumbnailStrip.module.css';
+
+interface SlideThumbnailStripProps {
+  presId: string;
+  format: TalkFormat;
+  /** Clicked slide, 0-based */
+  onSelect: (index: number) => void;
+}
+
+/** A talk's slides as a row of thumbnails, read from the slide cache; nothing until it's rendered */
+export function SlideThumbnailStrip({ presId, format, onSelect }: SlideThumbnailStripProps) {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let created: string[] = [];
+    getCachedSlides(presId, format).then((slides) => {
+      if (cancelled || !slides) return;
+      created = slides.map((s) => URL.createObjectURL(s.thumbnail));
+      setUrls(created);
+    }).catch(() => {});
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [presId, format]);
+
+  if (urls.length === 0) return null;
+
+  return (
+    <div className={styles.strip}>
+      {urls.map((url, i) => (
+        <button
+          key={url}
+          className={styles.thumb}
+          onClick={() => onSelect(i)}
+          title={`Preview from slide ${i + 1}`}
+          type="button"
+        >
+          <img src={url} alt={`Slide ${i + 1}`} draggable={false} />
+          <span className={styles.number}>{i + 1}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
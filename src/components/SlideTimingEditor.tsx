@@ -0,0 +1,87 @@
+import { useState, useCallback } from 'react';
+import type { SlideDurations, TalkFormat } from '../types';
+import { MIN_SLIDE_SECONDS, formatClock, validateSlideDurations } from '../lib/talkFormat';
+import styles from './SlideTimingEditor.module.css';
+
+interface SlideTimingEditorProps {
+  format: TalkFormat;
+  value?: SlideDurations;
+  onChange: (value: SlideDurations | undefined) => void;
+}
+
+/** Only slides that differ from the format default are stored */
+function toSlideDurations(format: TalkFormat, draft: string[]): SlideDurations {
+  const result: SlideDurations = {};
+  draft.forEach((text, i) => {
+    const seconds = Number(text);
+    if (seconds !== format.slideSeconds) result[i] = seconds;
+  });
+  return result;
+}
+
+export function SlideTimingEditor({ format, value, onChange }: SlideTimingEditorProps) {
+  const [draft, setDraft] = useState<string[]>(() =>
+    Array.from({ length: format.slideCount }, (_, i) => String(value?.[i] ?? format.slideSeconds)),
+  );
+
+  const durations = toSlideDurations(format, draft);
+  const error = validateSlideDurations(format, durations);
+  const totalMs = draft.reduce((sum, text) => sum + (Number(text) || 0) * 1000, 0);
+
+  const handleChange = useCallback((index: number, text: string) => {
+    const next = [...draft];
+    next[index] = text;
+    setDraft(next);
+
+    // Only valid timing reaches the presentation — the total must stay fixed
+    const nextDurations = toSlideDurations(format, next);
+    if (!validateSlideDurations(format, nextDurations)) {
+      onChange(Object.keys(nextDurations).length > 0 ? nextDurations : undefined);
+    }
+  }, [draft, format, onChange]);
+
+  const handleReset = useCallback(() => {
+    setDraft(Array.from({ length: format.slideCount }, () => String(format.slideSeconds)));
+    onChange(undefined);
+  }, [format, onChange]);
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.bar}>
+        {draft.map((text, i) => (
+          <div
+            key={i}
+            className={styles.barSegment}
+            style={{ flexGrow: Math.max(Number(text) || 0, 0.1) }}
+            title={`Slide ${i + 1}: ${text}s`}
+          />
+        ))}
+      </div>
+
+      <div className={styles.grid}>
+        {draft.map((text, i) => (
+          <label key={i} className={styles.cell}>
+            <span className={styles.cellLabel}>{i + 1}</span>
+            <input
+              className={`${styles.cellInput} ${Number(text) !== format.slideSeconds ? styles.cellInputCustom : ''}`}
+              type="number"
+              min={MIN_SLIDE_SECONDS}
+              step={0.5}
+              value={text}
+              onChange={(e) => handleChange(i, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className={styles.footer}>
+        <span className={error ? styles.totalError : styles.total}>
+          {error ?? `Total ${formatClock(totalMs)}`}
+        </span>
+        <button className={styles.resetButton} onClick={handleReset} type="button">
+          Reset to {format.slideSeconds}s each
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useRef, useEffect, useCallback } from 'react';
+import type { AudioCueSettings } from '../types';
+import type { AudioCue, AudioCuePlayer } from '../lib/audioCues';
+import { createAudioCuePlayer } from '../lib/audioCues';
+
+/** Speaker cues for one talk; nothing plays until `start` runs from a click */
+export function useAudioCues(settings: AudioCueSettings | undefined) {
+  const playerRef = useRef<AudioCuePlayer | null>(null);
+
+  useEffect(() => () => {
+    playerRef.current?.close();
+    playerRef.current = null;
+  }, []);
+
+  /** Returns the cue stream if it should be mixed into the recording */
+  const start = useCallback((): MediaStream | null => {
+    if (!settings || (!settings.slideTick && !settings.finalWarning)) return null;
+    if (!playerRef.current) playerRef.current = createAudioCuePlayer();
+    return settings.includeInRecording ? playerRef.current.stream : null;
+  }, [settings]);
+
+  const play = useCallback((cue: AudioCue) => {
+    if (!settings) return;
+    if (cue === 'slide-tick' && !settings.slideTick) return;
+    if (cue === 'final-warning' && !settings.finalWarning) return;
+    playerRef.current?.play(cue, settings.volume);
+  }, [settings]);
+
+  return { start, play };
+}
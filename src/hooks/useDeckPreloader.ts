@@ -0,0 +1,64 @@
+import { useRef, useEffect, useCallback } from 'react';
+import type { EventPresentation, LoadedDeck, TalkFormat } from '../types';
+import { loadCachedDeck } from '../lib/slideCache';
+import { RenderCancelledError } from '../lib/pdfRenderer';
+import { prefetchSlideBitmaps, releaseDeck } from '../lib/slideResources';
+
+// Only the opening slides are decoded ahead; the rest would push the playing
+// talk's slides out of the bitmap budget
+const PREFETCH_SLIDES = 3;
+
+interface Preload {
+  presId: string;
+  controller: AbortController;
+  /** Set once the opening slides are decoded */
+  deck: LoadedDeck | null;
+}
+
+/** Holds at most one deck, loaded and decoded ahead of its talk */
+export function useDeckPreloader() {
+  const preloadRef = useRef<Preload | null>(null);
+
+  const release = useCallback(() => {
+    const current = preloadRef.current;
+    if (!current) return;
+    preloadRef.current = null;
+    current.controller.abort();
+    if (current.deck) releaseDeck(current.deck);
+  }, []);
+
+  useEffect(() => release, [release]);
+
+  const preload = useCallback((pres: EventPresentation, format: TalkFormat) => {
+    if (preloadRef.current?.presId === pres.id) return;
+    release();
+    const entry: Preload = { presId: pres.id, controller: new AbortController(), deck: null };
+    preloadRef.current = entry;
+
+    (async () => {
+      try {
+        const deck = await loadCachedDeck(pres, format, undefined, entry.controller.signal);
+        if (preloadRef.current === entry) await prefetchSlideBitmaps(deck.slides.slice(0, PREFETCH_SLIDES));
+        // Released while loading: the deck is ours to clean up
+        if (preloadRef.current !== entry) {
+          releaseDeck(deck);
+          return;
+        }
+        entry.deck = deck;
+      } catch (err) {
+        if (!(err instanceof RenderCancelledError)) console.warn('[Preload] Could not load next deck:', err);
+        if (preloadRef.current === entry) preloadRef.current = null;
+      }
+    })();
+  }, [release]);
+
+  /** The preloaded deck for this talk if it's ready; the caller releases it from then on */
+  const take = useCallback((presId: string): LoadedDeck | null => {
+    const current = preloadRef.current;
+    if (!current || current.presId !== presId || !current.deck) return null;
+    preloadRef.current = null;
+    return current.deck;
+  }, []);
+
+  return { preload, take, release };
+}
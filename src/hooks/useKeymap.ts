@@ -0,0 +1,20 @@
+import { useState, useCallback } from 'react';
+import type { Keymap } from '../lib/keymap';
+import { DEFAULT_KEYMAP, loadKeymap, saveKeymap, clearKeymap } from '../lib/keymap';
+
+/** This device's key bindings, persisted on every change */
+export function useKeymap() {
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+
+  const updateKeymap = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  const resetKeymap = useCallback(() => {
+    setKeymap(DEFAULT_KEYMAP);
+    clearKeymap();
+  }, []);
+
+  return { keymap, updateKeymap, resetKeymap };
+}
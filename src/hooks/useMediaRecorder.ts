@@ -1,9 +1,24 @@
 import { useRef, useState, useCallback } from 'react';
 import fixWebmDuration from 'fix-webm-duration';
-import type { SlideImage } from '../types';
-
-function pickMimeType(): string {
+import type { CameraPipSettings, RecordingCodec, RecordingQuality, SlideFitSettings, SlideImage } from '../types';
+import { appendRecordingChunk, getRecordingChunks } from '../lib/db';
+import { DEFAULT_SLIDE_FIT, deckAspectRatio, drawFitted } from '../lib/slideFit';
+import { getSlideBitmap, peekSlideBitmap, prefetchSlideBitmaps } from '../lib/slideResources';
+import { drawCameraTile } from '../lib/cameraPip';
+import { SILENCE_ALERT_MS, SILENCE_DB, connectInputChain, loadAudioInput, openMicrophone, readLevelDb } from '../lib/audioInput';
+import { DEFAULT_RECORDING_QUALITY } from '../lib/recordingQuality';
+
+// Tried ahead of the defaults when a codec is preferred
+const CODEC_MIME_TYPES: Record<RecordingCodec, string[]> = {
+  auto: [],
+  h264: ['video/mp4;codecs=avc1,mp4a.40.2', 'video/webm;codecs=h264,opus'],
+  vp9: ['video/webm;codecs=vp9,opus'],
+  vp8: ['video/webm;codecs=vp8,opus'],
+};
+
+function pickMimeType(codec: RecordingCodec): string {
   const candidates = [
+    ...CODEC_MIME_TYPES[codec],
     // MP4 first — Safari records natively in MP4 (H.264+AAC), plays in <video>
     'video/mp4;codecs=avc1,mp4a.40.2',
     'video/mp4',
@@ -23,29 +38,78 @@ export interface OverlayInfo {
   eventTitle: string;
   storyName: string;
   speakerName: string;
-  currentSlide: number;     // 0-based (0–19)
-  totalSlides: number;      // 20
-  slideSecondsLeft: number; // countdown per slide (15→0)
+  currentSlide: number;     // 0-based
+  totalSlides: number;      // slide count of the event format
+  slideDurationsMs: number[]; // length of every slide, for proportional segments
+  slideSecondsLeft: number; // countdown for the current slide
+  totalLabel: string;       // e.g. "5 min"
+}
+
+/** Where to stream chunks so a reload doesn't lose the recording */
+export interface RecordingPersistTarget {
+  presId: string;
+  part: number;
+}
+
+/** Speaker camera for the picture-in-picture tile; the recorder stops its tracks when done */
+export interface RecordingCamera {
+  stream: MediaStream;
+  pip: CameraPipSettings;
+}
+
+interface CameraTile extends RecordingCamera {
+  video: HTMLVideoElement;
+}
+
+/** A stage clip's sound on its way into the recording */
+interface ClipAudio {
+  capture: MediaStream;
+  source: MediaStreamAudioSourceNode | null;
+  connect: () => void;
 }
 
 export interface MediaRecorderHandle {
-  startRecording: (slides: SlideImage[], preAcquiredAudio?: MediaStream | null) => Promise<void>;
+  startRecording: (
+    slides: SlideImage[],
+    preAcquiredAudio?: MediaStream | null,
+    persist?: RecordingPersistTarget,
+    /** Mixed in with the mic, e.g. speaker cues */
+    extraAudio?: MediaStream | null,
+    /** Same fit as the projected slides */
+    fit?: SlideFitSettings,
+    camera?: RecordingCamera | null,
+    quality?: RecordingQuality,
+  ) => Promise<void>;
   stopRecording: () => Promise<Blob | null>;
-  drawSlide: (slide: SlideImage, overlay?: OverlayInfo) => void;
+  /** `stageVideo` is the clip element on stage, for a video slide: recorded as the room sees and hears it */
+  drawSlide: (slide: SlideImage, overlay?: OverlayInfo, stageVideo?: HTMLVideoElement | null) => void;
   updateOverlay: (overlay: OverlayInfo) => void;
   setPaused: (paused: boolean) => void;
+  /** Record black in place of the slide, as the stage shows it; overlay and camera stay */
+  setBlackout: (blackout: boolean) => void;
+  /** Mic level after gain, in dBFS; -Infinity without a mic */
+  getInputLevelDb: () => number;
   isRecording: boolean;
   micDenied: boolean;
+  /** The mic has been silent for SILENCE_ALERT_MS while recording */
+  micSilent: boolean;
 }
 
-/** Draw event/story/speaker info + progress bar over the current canvas content */
+// How often the mic is checked for silence
+const SILENCE_CHECK_MS = 250;
+
+/** Draw the camera tile, event/story/speaker info + progress bar over the current canvas content */
 function drawOverlayOnCanvas(
   ctx: CanvasRenderingContext2D,
   w: number,
   h: number,
   overlay: OverlayInfo,
+  camera?: CameraTile | null,
 ) {
-  const { eventTitle, storyName, speakerName, currentSlide, totalSlides, slideSecondsLeft } = overlay;
+  // Under the text, so names stay readable over a top-left tile
+  if (camera) drawCameraTile(ctx, camera.video, camera.pip);
+
+  const { eventTitle, storyName, speakerName, currentSlide, totalSlides, slideDurationsMs, slideSecondsLeft, totalLabel } = overlay;
 
   // ── Top-left info block: event name, story name, speaker name ──
   const lineH = Math.round(h * 0.032);
@@ -104,26 +168,29 @@ function drawOverlayOnCanvas(
   ctx.textBaseline = 'middle';
   ctx.fillStyle = '#ef4444';
   const countText = String(slideSecondsLeft);
-  const countWidth = ctx.measureText('00').width;
+  const longestSeconds = Math.ceil(Math.max(...slideDurationsMs) / 1000);
+  const countWidth = ctx.measureText('0'.repeat(Math.max(2, String(longestSeconds).length))).width;
   ctx.fillText(countText, barPad, barY + barH / 2);
 
-  // "5 min" label (right)
+  // Total duration label (right)
   ctx.font = `600 ${Math.round(barH * 0.45)}px monospace`;
   ctx.fillStyle = '#ffffff';
-  const labelText = '5 min';
-  const labelWidth = ctx.measureText(labelText).width;
-  ctx.fillText(labelText, w - barPad - labelWidth, barY + barH / 2);
+  const labelWidth = ctx.measureText(totalLabel).width;
+  ctx.fillText(totalLabel, w - barPad - labelWidth, barY + barH / 2);
 
   // Segments area
   const segsLeft = barPad + countWidth + barPad;
   const segsRight = w - barPad - labelWidth - barPad;
   const totalSegsWidth = segsRight - segsLeft;
-  const segWidth = (totalSegsWidth - (totalSlides - 1) * segGap) / totalSlides;
+  const totalMs = slideDurationsMs.reduce((sum, d) => sum + d, 0);
+  const fillableWidth = totalSegsWidth - (totalSlides - 1) * segGap;
   const segH = Math.round(barH * 0.25);
   const segY = barY + (barH - segH) / 2;
 
+  let sx = segsLeft;
   for (let i = 0; i < totalSlides; i++) {
-    const sx = segsLeft + i * (segWidth + segGap);
+    // Each segment is as wide as its share of the talk
+    const segWidth = fillableWidth * (slideDurationsMs[i] / totalMs);
 
     // Background segment
     ctx.fillStyle = 'rgba(255,255,255,0.15)';
@@ -135,28 +202,187 @@ function drawOverlayOnCanvas(
       ctx.fillRect(sx, segY, segWidth, segH);
     } else if (i === currentSlide) {
       // Active slide: partial fill based on elapsed time
-      const progress = 1 - slideSecondsLeft / 15;
+      const progress = 1 - (slideSecondsLeft * 1000) / slideDurationsMs[i];
       ctx.fillStyle = '#ef4444';
       ctx.fillRect(sx, segY, segWidth * Math.max(0, Math.min(progress, 1)), segH);
     }
+
+    sx += segWidth + segGap;
   }
 
   ctx.restore();
 }
 
+// Frame rate for video and animated slides, and the camera tile, in the recording;
+// stills alone only repaint on change
+const MEDIA_FPS = 30;
+
+interface MediaLoop {
+  setPaused: (paused: boolean) => void;
+  stop: () => void;
+}
+
+/**
+ * Feed a motion slide's frames to `onFrame` until stopped. A clip is sampled
+ * from the stage's element when there is one, so the recording shows the
+ * frame the room sees; the stage plays and pauses it. Without one, a muted
+ * copy plays here.
+ */
+function startMediaLoop(
+  slide: SlideImage,
+  onFrame: (source: CanvasImageSource) => void,
+  stageVideo?: HTMLVideoElement | null,
+): MediaLoop | null {
+  if (!slide.mediaUrl) return null;
+
+  if (slide.mediaKind === 'video') {
+    const owned = !stageVideo;
+    let video = stageVideo;
+    if (!video) {
+      video = document.createElement('video');
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.src = slide.mediaUrl;
+    }
+    const clip = video;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    const setPaused = (paused: boolean) => {
+      clearInterval(timer);
+      timer = undefined;
+      if (paused) {
+        if (owned) clip.pause();
+        return;
+      }
+      if (owned) clip.play().catch(() => {});
+      timer = setInterval(() => {
+        if (clip.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) onFrame(clip);
+      }, 1000 / MEDIA_FPS);
+    };
+    setPaused(false);
+    return {
+      setPaused,
+      stop: () => {
+        setPaused(true);
+        if (!owned) return;
+        clip.removeAttribute('src');
+        clip.load();
+      },
+    };
+  }
+
+  // Animated images: without ImageDecoder the recording keeps the first frame
+  if (typeof ImageDecoder === 'undefined') return null;
+  const frameCanvas = document.createElement('canvas');
+  const frameCtx = frameCanvas.getContext('2d')!;
+  let decoder: ImageDecoder | null = null;
+  let index = 0;
+  let paused = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Bumped on every pause and resume; a step still decoding from before drops out
+  let generation = 0;
+
+  const step = async (gen: number) => {
+    timer = undefined;
+    if (!decoder || paused || stopped || gen !== generation) return;
+    let delayMs: number;
+    try {
+      const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+      const { image } = await decoder.decode({ frameIndex: index });
+      if (stopped || gen !== generation) {
+        image.close();
+        return;
+      }
+      frameCanvas.width = image.displayWidth;
+      frameCanvas.height = image.displayHeight;
+      frameCtx.drawImage(image, 0, 0);
+      // Frame durations are in microseconds; GIFs often leave them unset
+      delayMs = Math.max(1000 / MEDIA_FPS, (image.duration ?? 100_000) / 1000);
+      image.close();
+      index = (index + 1) % frameCount;
+      onFrame(frameCanvas);
+    } catch (err) {
+      // The recording keeps the last frame that decoded
+      console.warn('[Recorder] Animated slide stopped on a bad frame:', err);
+      decoder?.close();
+      decoder = null;
+      return;
+    }
+    if (!paused) timer = setTimeout(() => step(gen), delayMs);
+  };
+
+  fetch(slide.mediaUrl)
+    .then((res) => res.blob())
+    .then(async (blob) => {
+      decoder = new ImageDecoder({ data: blob.stream(), type: blob.type });
+      await decoder.completed;
+      step(generation);
+    })
+    .catch((err) => console.warn('[Recorder] Animated slide stays still:', err));
+
+  return {
+    setPaused: (next) => {
+      paused = next;
+      generation++;
+      clearTimeout(timer);
+      timer = undefined;
+      if (!next) step(generation);
+    },
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+      decoder?.close();
+    },
+  };
+}
+
 export function useMediaRecorder(): MediaRecorderHandle {
   const [isRecording, setIsRecording] = useState(false);
   const [micDenied, setMicDenied] = useState(false);
+  const [micSilent, setMicSilent] = useState(false);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const ctxRef = useRef<CanvasRenderingContext2D | null>(null);
   const canvasStreamRef = useRef<MediaStream | null>(null);
   const audioStreamRef = useRef<MediaStream | null>(null);
+  const mixCtxRef = useRef<AudioContext | null>(null);
+  const mixDestRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const clipAudioRef = useRef<ClipAudio | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const levelBufferRef = useRef(new Float32Array(1024));
+  const silenceTimerRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
   const recorderRef = useRef<MediaRecorder | null>(null);
+  // Chunks that couldn't be streamed to IndexedDB (or with nowhere to stream)
   const chunksRef = useRef<Blob[]>([]);
+  const persistRef = useRef<RecordingPersistTarget | null>(null);
+  // Writes in arrival order; stop waits for the last one
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const persistFailedRef = useRef(false);
   const mimeRef = useRef('');
   const startTimeRef = useRef(0);
-  const lastImageRef = useRef<HTMLImageElement | null>(null);
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedTotalMsRef = useRef(0);
+  const lastSourceRef = useRef<{ source: CanvasImageSource; slide: SlideImage } | null>(null);
+  const fitRef = useRef<SlideFitSettings>(DEFAULT_SLIDE_FIT);
+  const lastOverlayRef = useRef<OverlayInfo | null>(null);
+  const mediaLoopRef = useRef<MediaLoop | null>(null);
+  // When a motion slide last painted a frame (which carries the camera tile)
+  const mediaFrameAtRef = useRef(0);
+  const cameraRef = useRef<CameraTile | null>(null);
+  const cameraTimerRef = useRef<ReturnType<typeof setInterval> | undefined>(undefined);
+  const pendingUrlRef = useRef<string | null>(null);
+  const blackoutRef = useRef(false);
+
+  /** The slide as the stage shows it: fitted, or black during a blackout */
+  const drawStage = useCallback((ctx: CanvasRenderingContext2D, source: CanvasImageSource, slide: SlideImage) => {
+    if (blackoutRef.current) {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      return;
+    }
+    drawFitted(ctx, source, slide.width, slide.height, fitRef.current);
+  }, []);
 
   const pushFrame = useCallback(() => {
     const stream = canvasStreamRef.current;
@@ -166,39 +392,131 @@ export function useMediaRecorder(): MediaRecorderHandle {
     }
   }, []);
 
-  const drawSlide = useCallback((slide: SlideImage, overlay?: OverlayInfo) => {
+  /** Mix the stage clip's sound into the recording, replacing the last clip's */
+  const routeClipAudio = useCallback((video: HTMLVideoElement | null) => {
+    const previous = clipAudioRef.current;
+    if (previous) {
+      previous.capture.removeEventListener('addtrack', previous.connect);
+      previous.source?.disconnect();
+      clipAudioRef.current = null;
+    }
+    const mixCtx = mixCtxRef.current;
+    const mixDest = mixDestRef.current;
+    // Muted clips (the talk keeps clip sound off) have nothing to add.
+    // Safari and Firefox can't capture an element without taking its sound from the room.
+    const capturable = video as (HTMLVideoElement & { captureStream?: () => MediaStream }) | null;
+    if (!mixCtx || !mixDest || !capturable || capturable.muted || !capturable.captureStream) return;
+
+    const capture = capturable.captureStream();
+    const clipAudio: ClipAudio = {
+      capture,
+      source: null,
+      // The audio track only shows up once the clip has loaded
+      connect: () => {
+        if (clipAudio.source || capture.getAudioTracks().length === 0) return;
+        clipAudio.source = mixCtx.createMediaStreamSource(capture);
+        clipAudio.source.connect(mixDest);
+      },
+    };
+    clipAudioRef.current = clipAudio;
+    capture.addEventListener('addtrack', clipAudio.connect);
+    clipAudio.connect();
+  }, []);
+
+  const drawSlide = useCallback((slide: SlideImage, overlay?: OverlayInfo, stageVideo?: HTMLVideoElement | null) => {
     const ctx = ctxRef.current;
     const canvas = canvasRef.current;
     if (!ctx || !canvas) return;
 
-    const img = new Image();
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      lastImageRef.current = img;
-      if (overlay) {
-        drawOverlayOnCanvas(ctx, canvas.width, canvas.height, overlay);
+    if (overlay) lastOverlayRef.current = overlay;
+    const paint = (source: CanvasImageSource) => {
+      drawStage(ctx, source, slide);
+      lastSourceRef.current = { source, slide };
+      if (lastOverlayRef.current) {
+        drawOverlayOnCanvas(ctx, canvas.width, canvas.height, lastOverlayRef.current, cameraRef.current);
       }
       pushFrame();
     };
-    img.src = slide.objectUrl;
-  }, [pushFrame]);
+
+    mediaLoopRef.current?.stop();
+    // The still goes up first; clip frames replace it once they decode
+    mediaLoopRef.current = startMediaLoop(slide, (frame) => {
+      if (ctxRef.current !== ctx) return;
+      mediaFrameAtRef.current = Date.now();
+      paint(frame);
+    }, stageVideo);
+    routeClipAudio(slide.mediaKind === 'video' ? stageVideo ?? null : null);
+    if (recorderRef.current?.state === 'paused') mediaLoopRef.current?.setPaused(true);
+
+    // Slides decoded up front paint synchronously, even in a hidden tab
+    pendingUrlRef.current = slide.objectUrl;
+    const bitmap = peekSlideBitmap(slide);
+    if (bitmap) {
+      paint(bitmap);
+      return;
+    }
+    getSlideBitmap(slide).then((decoded) => {
+      // A later slide may have been requested while this one decoded
+      if (decoded && pendingUrlRef.current === slide.objectUrl && ctxRef.current === ctx) paint(decoded);
+    });
+  }, [pushFrame, routeClipAudio, drawStage]);
 
   /** Redraw cached slide + updated overlay (called every second for timer updates) */
   const updateOverlay = useCallback((overlay: OverlayInfo) => {
     const ctx = ctxRef.current;
     const canvas = canvasRef.current;
-    const img = lastImageRef.current;
-    if (!ctx || !canvas || !img) return;
+    const last = lastSourceRef.current;
+    lastOverlayRef.current = overlay;
+    if (!ctx || !canvas || !last) return;
+    // The slide manager closes bitmaps it needs the room for; fetch it again
+    if (last.source instanceof ImageBitmap && last.source.width === 0) {
+      const { slide } = last;
+      lastSourceRef.current = null;
+      getSlideBitmap(slide).then((bitmap) => {
+        if (!bitmap || ctxRef.current !== ctx || pendingUrlRef.current !== slide.objectUrl) return;
+        lastSourceRef.current = { source: bitmap, slide };
+        drawStage(ctx, bitmap, slide);
+        drawOverlayOnCanvas(ctx, canvas.width, canvas.height, lastOverlayRef.current ?? overlay, cameraRef.current);
+        pushFrame();
+      });
+      return;
+    }
 
-    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-    drawOverlayOnCanvas(ctx, canvas.width, canvas.height, overlay);
+    drawStage(ctx, last.source, last.slide);
+    drawOverlayOnCanvas(ctx, canvas.width, canvas.height, overlay, cameraRef.current);
     pushFrame();
-  }, [pushFrame]);
+  }, [pushFrame, drawStage]);
+
+  const setBlackout = useCallback((blackout: boolean) => {
+    if (blackoutRef.current === blackout) return;
+    blackoutRef.current = blackout;
+    const overlay = lastOverlayRef.current;
+    if (overlay) updateOverlay(overlay);
+  }, [updateOverlay]);
+
+  const getInputLevelDb = useCallback(() => {
+    const analyser = analyserRef.current;
+    return analyser ? readLevelDb(analyser, levelBufferRef.current) : -Infinity;
+  }, []);
+
+  /** Time actually recorded so far — MediaRecorder drops paused time from the file */
+  const getRecordedMs = useCallback(() => {
+    const now = pausedAtRef.current ?? Date.now();
+    return now - startTimeRef.current - pausedTotalMsRef.current;
+  }, []);
 
-  const startRecording = useCallback(async (slides: SlideImage[], preAcquiredAudio?: MediaStream | null) => {
+  const startRecording = useCallback(async (
+    slides: SlideImage[],
+    preAcquiredAudio?: MediaStream | null,
+    persist?: RecordingPersistTarget,
+    extraAudio?: MediaStream | null,
+    fit: SlideFitSettings = DEFAULT_SLIDE_FIT,
+    camera?: RecordingCamera | null,
+    quality: RecordingQuality = DEFAULT_RECORDING_QUALITY,
+  ) => {
     // Check browser support
     if (typeof MediaRecorder === 'undefined') return;
-    const mime = pickMimeType();
+    const mime = pickMimeType(quality.codec);
     if (!mime) return;
     mimeRef.current = mime;
 
@@ -206,16 +524,17 @@ export function useMediaRecorder(): MediaRecorderHandle {
     const testCanvas = document.createElement('canvas');
     if (!testCanvas.captureStream) return;
 
-    // Create offscreen canvas – cap at 1280×720 to keep memory low during 5-min recordings.
-    // Slides are rendered at 2× for display, but that resolution is overkill for recording.
+    // Create offscreen canvas, capped at the quality's frame size.
+    // Slides are rendered for the display, which is often more than the recording needs.
     const firstSlide = slides[0];
     if (!firstSlide) return;
 
-    const MAX_W = 1280;
-    const MAX_H = 720;
-    const aspect = firstSlide.width / firstSlide.height;
+    // The frame has the stage's shape, so odd-shaped slides are fitted as on screen
+    const MAX_W = quality.width;
+    const MAX_H = quality.height;
+    const aspect = deckAspectRatio(slides);
     let recW = firstSlide.width;
-    let recH = firstSlide.height;
+    let recH = Math.round(recW / aspect);
     if (recW > MAX_W) { recW = MAX_W; recH = Math.round(recW / aspect); }
     if (recH > MAX_H) { recH = MAX_H; recW = Math.round(recH * aspect); }
 
@@ -227,16 +546,18 @@ export function useMediaRecorder(): MediaRecorderHandle {
 
     canvasRef.current = canvas;
     ctxRef.current = ctx;
+    fitRef.current = fit;
 
-    // Capture canvas stream at 1fps for proper frame timing + manual pushes on slide change
-    const canvasStream = canvas.captureStream(1);
+    // Capture at the quality's frame rate for proper frame timing + manual pushes on slide change
+    const canvasStream = canvas.captureStream(quality.frameRate);
     canvasStreamRef.current = canvasStream;
 
     // Use pre-acquired audio stream, or request mic if not provided
+    const input = loadAudioInput();
     let audioStream: MediaStream | null = preAcquiredAudio ?? null;
     if (!audioStream) {
       try {
-        audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        audioStream = await openMicrophone(input.deviceId);
         setMicDenied(false);
       } catch {
         setMicDenied(true);
@@ -251,19 +572,79 @@ export function useMediaRecorder(): MediaRecorderHandle {
     for (const track of canvasStream.getTracks()) {
       combinedStream.addTrack(track);
     }
-    if (audioStream) {
-      for (const track of audioStream.getTracks()) {
+    const hasClips = slides.some((s) => s.mediaKind === 'video' && s.mediaUrl);
+    if (audioStream || extraAudio || hasClips) {
+      // The mic goes through its gain (and the meter); MediaRecorder only takes
+      // one audio track, so extra audio and clip sound are mixed in here too
+      const mixCtx = new AudioContext();
+      const mixDest = mixCtx.createMediaStreamDestination();
+      if (audioStream) {
+        const chain = connectInputChain(mixCtx, audioStream, input.gain);
+        chain.gain.connect(mixDest);
+        analyserRef.current = chain.analyser;
+      }
+      if (extraAudio) mixCtx.createMediaStreamSource(extraAudio).connect(mixDest);
+      mixCtx.resume().catch(() => {});
+      mixCtxRef.current = mixCtx;
+      mixDestRef.current = mixDest;
+      for (const track of mixDest.stream.getAudioTracks()) {
         combinedStream.addTrack(track);
       }
     }
 
+    // A muted or wrong mic is caught during the talk, not after it
+    if (analyserRef.current) {
+      let silentSince: number | null = null;
+      setMicSilent(false);
+      silenceTimerRef.current = setInterval(() => {
+        if (recorderRef.current?.state !== 'recording') {
+          silentSince = null;
+          return;
+        }
+        const now = Date.now();
+        if (getInputLevelDb() >= SILENCE_DB) {
+          silentSince = null;
+          setMicSilent(false);
+        } else {
+          silentSince ??= now;
+          if (now - silentSince >= SILENCE_ALERT_MS) setMicSilent(true);
+        }
+      }, SILENCE_CHECK_MS);
+    }
+
     // Create recorder
+    // With a persist target chunks live only in IndexedDB, so a crash or an
+    // out-of-memory tab keeps everything but the chunk being recorded
     chunksRef.current = [];
-    const recorder = new MediaRecorder(combinedStream, { mimeType: mime });
+    persistRef.current = persist ?? null;
+    persistQueueRef.current = Promise.resolve();
+    persistFailedRef.current = false;
+    const recorder = new MediaRecorder(combinedStream, {
+      mimeType: mime,
+      videoBitsPerSecond: quality.videoBitsPerSecond,
+      audioBitsPerSecond: quality.audioBitsPerSecond,
+    });
     recorder.ondataavailable = (e) => {
-      if (e.data.size > 0) {
-        chunksRef.current.push(e.data);
+      if (e.data.size === 0) return;
+      const blob = e.data;
+      if (!persist) {
+        chunksRef.current.push(blob);
+        return;
       }
+      const chunk = { ...persist, blob, recordedMs: getRecordedMs(), savedAt: Date.now() };
+      persistQueueRef.current = persistQueueRef.current.then(async () => {
+        if (!persistFailedRef.current) {
+          try {
+            await appendRecordingChunk(chunk);
+            return;
+          } catch (err) {
+            // Quota or a closed database: the rest of the part stays in memory
+            console.warn('[MediaRecorder] Could not persist chunk, keeping the rest in memory:', err);
+            persistFailedRef.current = true;
+          }
+        }
+        chunksRef.current.push(blob);
+      });
     };
     recorder.onerror = (e) => {
       console.error('[MediaRecorder] error – stopping:', e);
@@ -272,11 +653,34 @@ export function useMediaRecorder(): MediaRecorderHandle {
     recorderRef.current = recorder;
     recorder.start(10_000); // collect chunks every 10s (30 chunks over 5 min vs 300)
     startTimeRef.current = Date.now();
+    pausedAtRef.current = null;
+    pausedTotalMsRef.current = 0;
     setIsRecording(true);
 
+    // Decode every slide now rather than at each slide boundary
+    prefetchSlideBitmaps(slides);
+
+    if (camera) {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = camera.stream;
+      video.play().catch(() => {});
+      cameraRef.current = { ...camera, video };
+      // Stills only repaint on change; the tile needs frames of its own.
+      // Motion slides already repaint at this rate while their frames come
+      // in; a clip that hasn't loaded or an animation that failed doesn't.
+      cameraTimerRef.current = setInterval(() => {
+        const overlay = lastOverlayRef.current;
+        if (!overlay || recorderRef.current?.state !== 'recording') return;
+        if (Date.now() - mediaFrameAtRef.current < 1000 / MEDIA_FPS) return;
+        updateOverlay(overlay);
+      }, 1000 / MEDIA_FPS);
+    }
+
     // Draw first slide (overlay will be added by PresentationScreen interval)
     drawSlide(firstSlide);
-  }, [drawSlide]);
+  }, [drawSlide, updateOverlay, getRecordedMs, getInputLevelDb]);
 
   const stopRecording = useCallback((): Promise<Blob | null> => {
     return new Promise((resolve) => {
@@ -288,14 +692,28 @@ export function useMediaRecorder(): MediaRecorderHandle {
       }
 
       recorder.onstop = async () => {
-        let blob = new Blob(chunksRef.current, { type: mimeRef.current });
+        // The part is put together only now: stored chunks first, then any kept in memory
+        await persistQueueRef.current;
+        const persist = persistRef.current;
+        let stored: Blob[] = [];
+        if (persist) {
+          try {
+            stored = (await getRecordingChunks(persist.presId))
+              .filter((c) => c.part === persist.part)
+              .map((c) => c.blob);
+          } catch (err) {
+            console.error('[MediaRecorder] Could not read stored chunks:', err);
+          }
+        }
+        let blob = new Blob([...stored, ...chunksRef.current], { type: mimeRef.current });
         chunksRef.current = [];
+        persistRef.current = null;
 
         // Fix WebM duration metadata so video players show correct duration/seekbar
         // (MP4 recordings from Safari don't need this)
         const isWebm = mimeRef.current.startsWith('video/webm');
         if (isWebm && blob.size > 0 && startTimeRef.current > 0) {
-          const duration = Date.now() - startTimeRef.current;
+          const duration = getRecordedMs();
           try {
             blob = await fixWebmDuration(blob, duration, { logger: false });
           } catch {
@@ -309,16 +727,22 @@ export function useMediaRecorder(): MediaRecorderHandle {
 
       recorder.stop();
     });
-  }, []);
+  }, [getRecordedMs]);
 
   const setPaused = useCallback((paused: boolean) => {
     const recorder = recorderRef.current;
     if (!recorder || recorder.state === 'inactive') return;
 
+    mediaLoopRef.current?.setPaused(paused);
     if (paused && recorder.state === 'recording') {
       recorder.pause();
+      pausedAtRef.current = Date.now();
     } else if (!paused && recorder.state === 'paused') {
       recorder.resume();
+      if (pausedAtRef.current !== null) {
+        pausedTotalMsRef.current += Date.now() - pausedAtRef.current;
+        pausedAtRef.current = null;
+      }
     }
   }, []);
 
@@ -326,6 +750,26 @@ export function useMediaRecorder(): MediaRecorderHandle {
     // Stop all audio tracks
     audioStreamRef.current?.getTracks().forEach((t) => t.stop());
     audioStreamRef.current = null;
+    if (clipAudioRef.current) {
+      clipAudioRef.current.capture.removeEventListener('addtrack', clipAudioRef.current.connect);
+      clipAudioRef.current = null;
+    }
+    mixCtxRef.current?.close().catch(() => {});
+    mixCtxRef.current = null;
+    mixDestRef.current = null;
+    analyserRef.current = null;
+    clearInterval(silenceTimerRef.current);
+    silenceTimerRef.current = undefined;
+    setMicSilent(false);
+
+    // Release the camera, or its light stays on
+    clearInterval(cameraTimerRef.current);
+    cameraTimerRef.current = undefined;
+    if (cameraRef.current) {
+      cameraRef.current.stream.getTracks().forEach((t) => t.stop());
+      cameraRef.current.video.srcObject = null;
+      cameraRef.current = null;
+    }
 
     // Stop canvas stream tracks
     canvasStreamRef.current?.getTracks().forEach((t) => t.stop());
@@ -334,7 +778,12 @@ export function useMediaRecorder(): MediaRecorderHandle {
     canvasRef.current = null;
     ctxRef.current = null;
     recorderRef.current = null;
-    lastImageRef.current = null;
+    mediaLoopRef.current?.stop();
+    mediaLoopRef.current = null;
+    lastSourceRef.current = null;
+    lastOverlayRef.current = null;
+    pendingUrlRef.current = null;
+    blackoutRef.current = false;
     setIsRecording(false);
   }
 
@@ -344,7 +793,10 @@ export function useMediaRecorder(): MediaRecorderHandle {
     drawSlide,
     updateOverlay,
     setPaused,
+    setBlackout,
+    getInputLevelDb,
     isRecording,
     micDenied,
+    micSilent,
   };
 }
@@ -1,9 +1,7 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import type { TimerState } from '../types';
-
-const SLIDE_DURATION_MS = 15_000;
-const TOTAL_SLIDES = 20;
-const TOTAL_DURATION_MS = SLIDE_DURATION_MS * TOTAL_SLIDES; // 300_000 = 5 min
+import type { RunLogEvent } from '../lib/runLog';
+import { createTalkClock, startTickSource } from '../lib/talkClock';
 
 interface UsePresentationTimerReturn {
   timerState: TimerState;
@@ -16,39 +14,93 @@ interface UsePresentationTimerReturn {
   reset: () => void;
 }
 
+/** Index of the slide showing at `elapsed`, given each slide's start offset */
+function slideIndexAt(slideStarts: number[], elapsed: number): number {
+  let index = 0;
+  while (index < slideStarts.length - 1 && slideStarts[index + 1] <= elapsed) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Drives a talk from a per-slide schedule. `slideDurationsMs` should be
+ * memoized by the caller — a new array restarts the timer.
+ * `onLog` hears about pauses, manual jumps and restarts, for the run log.
+ * `startAtMs` starts the talk part-way through, e.g. when resuming after a reload.
+ */
 export function usePresentationTimer(
+  slideDurationsMs: number[],
   onFinish?: () => void,
   autoStart = true,
+  onLog?: (event: RunLogEvent) => void,
+  startAtMs = 0,
 ): UsePresentationTimerReturn {
+  const { slideStarts, totalDurationMs } = useMemo(() => {
+    const starts: number[] = [];
+    let total = 0;
+    for (const d of slideDurationsMs) {
+      starts.push(total);
+      total += d;
+    }
+    return { slideStarts: starts, totalDurationMs: total };
+  }, [slideDurationsMs]);
+  const totalSlides = slideStarts.length;
+
+  const [clock] = useState(createTalkClock);
   const startTimeRef = useRef(0);
   const pausedAtRef = useRef<number | null>(null);
   const totalPausedMsRef = useRef(0);
   const manualOffsetRef = useRef(0);
-  const rafIdRef = useRef(0);
+  const stopTickingRef = useRef<(() => void) | null>(null);
   const onFinishRef = useRef(onFinish);
+  const onLogRef = useRef(onLog);
   const hasFinishedRef = useRef(false);
+  // The first resume only ends the wait for the speaker — not a pause worth logging
+  const hasStartedRef = useRef(false);
 
-  onFinishRef.current = onFinish;
+  useEffect(() => {
+    onFinishRef.current = onFinish;
+    onLogRef.current = onLog;
+  });
 
-  const [timerState, setTimerState] = useState<TimerState>({
+  const [timerState, setTimerState] = useState<TimerState>(() => ({
     currentSlide: 0,
     slideElapsed: 0,
     totalElapsed: 0,
-    isPaused: false,
+    isPaused: !autoStart,
     isFinished: false,
-  });
+  }));
+
+  // A new schedule or start mode restarts the timer below; its paused flag is set here, while rendering
+  const [startMode, setStartMode] = useState({ slideStarts, autoStart, startAtMs });
+  if (startMode.slideStarts !== slideStarts || startMode.autoStart !== autoStart || startMode.startAtMs !== startAtMs) {
+    setStartMode({ slideStarts, autoStart, startAtMs });
+    setTimerState((prev) => ({ ...prev, isPaused: !autoStart }));
+  }
 
   const getEffectiveElapsed = useCallback(() => {
-    const now = pausedAtRef.current ?? performance.now();
+    const now = pausedAtRef.current ?? clock.now();
     return now - startTimeRef.current - totalPausedMsRef.current + manualOffsetRef.current;
+  }, [clock]);
+
+  /** Where the talk stands, for log entries */
+  const getPosition = useCallback(() => {
+    const talkElapsedMs = Math.max(0, Math.min(getEffectiveElapsed(), totalDurationMs));
+    return { slide: slideIndexAt(slideStarts, talkElapsedMs), talkElapsedMs };
+  }, [getEffectiveElapsed, slideStarts, totalDurationMs]);
+
+  const stopTicking = useCallback(() => {
+    stopTickingRef.current?.();
+    stopTickingRef.current = null;
   }, []);
 
   const tick = useCallback(() => {
     const elapsed = getEffectiveElapsed();
-    const clampedElapsed = Math.max(0, Math.min(elapsed, TOTAL_DURATION_MS));
-    const currentSlide = Math.min(Math.floor(clampedElapsed / SLIDE_DURATION_MS), TOTAL_SLIDES - 1);
-    const slideElapsed = clampedElapsed - currentSlide * SLIDE_DURATION_MS;
-    const isFinished = clampedElapsed >= TOTAL_DURATION_MS;
+    const clampedElapsed = Math.max(0, Math.min(elapsed, totalDurationMs));
+    const currentSlide = slideIndexAt(slideStarts, clampedElapsed);
+    const slideElapsed = clampedElapsed - slideStarts[currentSlide];
+    const isFinished = clampedElapsed >= totalDurationMs;
 
     setTimerState({
       currentSlide,
@@ -58,51 +110,58 @@ export function usePresentationTimer(
       isFinished,
     });
 
+    if (isFinished || pausedAtRef.current !== null) {
+      stopTicking();
+    }
     if (isFinished && !hasFinishedRef.current) {
       hasFinishedRef.current = true;
       onFinishRef.current?.();
-      return;
     }
+  }, [getEffectiveElapsed, stopTicking, slideStarts, totalDurationMs]);
 
-    if (!isFinished && pausedAtRef.current === null) {
-      rafIdRef.current = requestAnimationFrame(tick);
-    }
-  }, [getEffectiveElapsed]);
+  const startTicking = useCallback(() => {
+    stopTicking();
+    stopTickingRef.current = startTickSource(tick);
+  }, [stopTicking, tick]);
 
   // Start the timer on mount (or paused if autoStart is false)
   useEffect(() => {
-    startTimeRef.current = performance.now();
+    startTimeRef.current = clock.now();
     totalPausedMsRef.current = 0;
-    manualOffsetRef.current = 0;
+    manualOffsetRef.current = startAtMs;
     hasFinishedRef.current = false;
+    hasStartedRef.current = autoStart;
 
     if (autoStart) {
       pausedAtRef.current = null;
-      rafIdRef.current = requestAnimationFrame(tick);
+      startTicking();
     } else {
-      pausedAtRef.current = performance.now();
-      setTimerState((prev) => ({ ...prev, isPaused: true }));
+      pausedAtRef.current = clock.now();
     }
 
-    return () => {
-      cancelAnimationFrame(rafIdRef.current);
-    };
-  }, [tick, autoStart]);
+    return stopTicking;
+  }, [clock, startTicking, stopTicking, autoStart, startAtMs]);
 
   const pause = useCallback(() => {
     if (pausedAtRef.current !== null) return;
-    pausedAtRef.current = performance.now();
-    cancelAnimationFrame(rafIdRef.current);
+    onLogRef.current?.({ kind: 'pause', ...getPosition() });
+    pausedAtRef.current = clock.now();
+    stopTicking();
     setTimerState((prev) => ({ ...prev, isPaused: true }));
-  }, []);
+  }, [clock, stopTicking, getPosition]);
 
   const resume = useCallback(() => {
     if (pausedAtRef.current === null) return;
-    totalPausedMsRef.current += performance.now() - pausedAtRef.current;
+    const pausedMs = clock.now() - pausedAtRef.current;
+    totalPausedMsRef.current += pausedMs;
     pausedAtRef.current = null;
+    if (hasStartedRef.current) {
+      onLogRef.current?.({ kind: 'resume', ...getPosition(), pausedMs });
+    }
+    hasStartedRef.current = true;
     setTimerState((prev) => ({ ...prev, isPaused: false }));
-    rafIdRef.current = requestAnimationFrame(tick);
-  }, [tick]);
+    startTicking();
+  }, [clock, startTicking, getPosition]);
 
   const togglePause = useCallback(() => {
     if (pausedAtRef.current !== null) {
@@ -114,9 +173,10 @@ export function usePresentationTimer(
 
   const goToSlide = useCallback(
     (targetIndex: number) => {
-      const clamped = Math.max(0, Math.min(targetIndex, TOTAL_SLIDES - 1));
-      const targetElapsed = clamped * SLIDE_DURATION_MS;
+      const clamped = Math.max(0, Math.min(targetIndex, totalSlides - 1));
+      const targetElapsed = slideStarts[clamped];
       const currentEffective = getEffectiveElapsed();
+      onLogRef.current?.({ kind: 'slide-jump', ...getPosition(), toSlide: clamped });
       manualOffsetRef.current += targetElapsed - currentEffective;
       hasFinishedRef.current = false;
 
@@ -125,32 +185,26 @@ export function usePresentationTimer(
         tick();
       }
     },
-    [getEffectiveElapsed, tick],
+    [getEffectiveElapsed, getPosition, tick, slideStarts, totalSlides],
   );
 
   const nextSlide = useCallback(() => {
-    const current = Math.min(
-      Math.floor(getEffectiveElapsed() / SLIDE_DURATION_MS),
-      TOTAL_SLIDES - 1,
-    );
-    if (current < TOTAL_SLIDES - 1) {
+    const current = slideIndexAt(slideStarts, getEffectiveElapsed());
+    if (current < totalSlides - 1) {
       goToSlide(current + 1);
     }
-  }, [getEffectiveElapsed, goToSlide]);
+  }, [getEffectiveElapsed, goToSlide, slideStarts, totalSlides]);
 
   const prevSlide = useCallback(() => {
-    const current = Math.min(
-      Math.floor(getEffectiveElapsed() / SLIDE_DURATION_MS),
-      TOTAL_SLIDES - 1,
-    );
+    const current = slideIndexAt(slideStarts, getEffectiveElapsed());
     if (current > 0) {
       goToSlide(current - 1);
     }
-  }, [getEffectiveElapsed, goToSlide]);
+  }, [getEffectiveElapsed, goToSlide, slideStarts]);
 
   const reset = useCallback(() => {
-    cancelAnimationFrame(rafIdRef.current);
-    startTimeRef.current = performance.now();
+    onLogRef.current?.({ kind: 'restart', ...getPosition() });
+    startTimeRef.current = clock.now();
     pausedAtRef.current = null;
     totalPausedMsRef.current = 0;
     manualOffsetRef.current = 0;
@@ -162,8 +216,8 @@ export function usePresentationTimer(
       isPaused: false,
       isFinished: false,
     });
-    rafIdRef.current = requestAnimationFrame(tick);
-  }, [tick]);
+    startTicking();
+  }, [clock, startTicking, getPosition]);
 
   return {
     timerState,
@@ -0,0 +1,40 @@
+import { useRef, useEffect, useCallback } from 'react';
+import type { ShowChannel, ShowMessage } from '../lib/showChannel';
+import { createShowChannel } from '../lib/showChannel';
+
+type SendShowMessage = (message: ShowMessage) => void;
+
+/**
+ * Join the control channel of an event. Returns a stable `send`;
+ * incoming messages from other windows go to `onMessage`, which can reply through `send`.
+ * Pass a relay URL and the event's relay token to also reach devices through the WebSocket relay.
+ */
+export function useShowChannel(
+  eventId: string | undefined,
+  onMessage: (message: ShowMessage, send: SendShowMessage) => void,
+  relayUrl?: string | null,
+  relayToken?: string | null,
+): SendShowMessage {
+  const channelRef = useRef<ShowChannel | null>(null);
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    if (!eventId) return;
+    const channel = createShowChannel(eventId, relayUrl, relayToken);
+    channelRef.current = channel;
+    const unsubscribe = channel.subscribe((message) => onMessageRef.current(message, channel.send));
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [eventId, relayUrl, relayToken]);
+
+  return useCallback((message: ShowMessage) => {
+    channelRef.current?.send(message);
+  }, []);
+}
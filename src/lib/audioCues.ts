@@ -0,0 +1,69 @@
+import type { AudioCueSettings, IgniteEvent } from '../types';
+
+// Speaker cues, synthesized with Web Audio so there is nothing to download
+
+export type AudioCue = 'slide-tick' | 'final-warning';
+
+export const DEFAULT_AUDIO_CUES: AudioCueSettings = {
+  slideTick: false,
+  finalWarning: false,
+  warningSeconds: 10,
+  volume: 0.5,
+  includeInRecording: false,
+};
+
+export const MIN_WARNING_SECONDS = 3;
+export const MAX_WARNING_SECONDS = 60;
+
+export function getAudioCueSettings(event: IgniteEvent | null | undefined): AudioCueSettings {
+  return { ...DEFAULT_AUDIO_CUES, ...event?.audioCues };
+}
+
+export interface AudioCuePlayer {
+  play: (cue: AudioCue, volume: number) => void;
+  /** Cue audio as a stream, for mixing into a recording */
+  stream: MediaStream;
+  close: () => void;
+}
+
+/** One soft enveloped tone; times are in seconds from `at` */
+function tone(ctx: AudioContext, out: AudioNode, type: OscillatorType, freq: number, at: number, length: number, peak: number) {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.value = freq;
+  gain.gain.setValueAtTime(0, at);
+  gain.gain.linearRampToValueAtTime(peak, at + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + length);
+  osc.connect(gain).connect(out);
+  osc.start(at);
+  osc.stop(at + length + 0.02);
+}
+
+/** Create while handling a user gesture, or the browser keeps the context suspended */
+export function createAudioCuePlayer(): AudioCuePlayer {
+  const ctx = new AudioContext();
+  const speaker = ctx.createGain();
+  speaker.connect(ctx.destination);
+  const recording = ctx.createMediaStreamDestination();
+  speaker.connect(recording);
+  ctx.resume().catch(() => {});
+
+  const play = (cue: AudioCue, volume: number) => {
+    if (volume <= 0) return;
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+    const at = ctx.currentTime + 0.01;
+    if (cue === 'slide-tick') {
+      tone(ctx, speaker, 'sine', 1500, at, 0.06, 0.4 * volume);
+    } else {
+      tone(ctx, speaker, 'triangle', 880, at, 0.25, 0.6 * volume);
+      tone(ctx, speaker, 'triangle', 660, at + 0.22, 0.35, 0.6 * volume);
+    }
+  };
+
+  return {
+    play,
+    stream: recording.stream,
+    close: () => { ctx.close().catch(() => {}); },
+  };
+}
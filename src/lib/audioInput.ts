@@ -0,0 +1,94 @@
+// Microphone for recordings: which input, and how much gain. Saved per
+// device, because the mic is whatever is plugged into this laptop at this
+// venue. The gain runs in Web Audio (source → gain → analyser), so the level
+// meter shows what the recording gets.
+
+export interface AudioInputSettings {
+  /** MediaDeviceInfo.deviceId; the system default when null */
+  deviceId: string | null;
+  /** Linear gain, 1 = as the mic delivers it */
+  gain: number;
+}
+
+export const DEFAULT_AUDIO_INPUT: AudioInputSettings = { deviceId: null, gain: 1 };
+
+export const MIN_INPUT_GAIN = 0;
+export const MAX_INPUT_GAIN = 3;
+
+// Below this the input counts as silent: a muted, unplugged or wrong mic
+export const SILENCE_DB = -55;
+/** How long the input may stay silent while recording before the alert */
+export const SILENCE_ALERT_MS = 5000;
+
+// The meter's scale, in dBFS
+const METER_FLOOR_DB = -60;
+
+const AUDIO_INPUT_KEY = 'audio_input';
+
+export function loadAudioInput(): AudioInputSettings {
+  try {
+    const raw = localStorage.getItem(AUDIO_INPUT_KEY);
+    if (!raw) return DEFAULT_AUDIO_INPUT;
+    const saved = JSON.parse(raw) as Partial<AudioInputSettings>;
+    return {
+      deviceId: typeof saved.deviceId === 'string' ? saved.deviceId : null,
+      gain: typeof saved.gain === 'number'
+        ? Math.min(MAX_INPUT_GAIN, Math.max(MIN_INPUT_GAIN, saved.gain))
+        : DEFAULT_AUDIO_INPUT.gain,
+    };
+  } catch {
+    return DEFAULT_AUDIO_INPUT;
+  }
+}
+
+export function saveAudioInput(settings: AudioInputSettings): void {
+  localStorage.setItem(AUDIO_INPUT_KEY, JSON.stringify(settings));
+}
+
+/** Audio inputs; labels are empty until the page has mic permission */
+export async function listAudioInputs(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((d) => d.kind === 'audioinput');
+}
+
+/** Open the chosen mic, or the default one if it isn't plugged in any more */
+export async function openMicrophone(deviceId: string | null): Promise<MediaStream> {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } });
+    } catch (err) {
+      const name = (err as { name?: string }).name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw err;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: true });
+}
+
+export interface InputChain {
+  gain: GainNode;
+  analyser: AnalyserNode;
+}
+
+/** Mic → gain → analyser in `ctx`; connect `gain` onward to record it */
+export function connectInputChain(ctx: AudioContext, stream: MediaStream, gain: number): InputChain {
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = gain;
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  ctx.createMediaStreamSource(stream).connect(gainNode);
+  gainNode.connect(analyser);
+  return { gain: gainNode, analyser };
+}
+
+/** Current level in dBFS (RMS over the analyser's window); -Infinity for digital silence */
+export function readLevelDb(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): number {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (const v of buffer) sum += v * v;
+  return 10 * Math.log10(sum / buffer.length);
+}
+
+/** A level in dBFS as a 0–1 meter position */
+export function meterPosition(db: number): number {
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
@@ -0,0 +1,91 @@
+import type { CameraCorner, CameraPipSettings, CameraShape, EventPresentation, IgniteEvent } from '../types';
+import { fitRect } from './slideFit';
+
+// The speaker's webcam as a picture-in-picture tile in the recording. Off
+// unless the event turns it on; a speaker can opt out for their talk.
+
+export const DEFAULT_CAMERA_PIP: CameraPipSettings = {
+  enabled: false,
+  corner: 'bottom-right',
+  size: 0.25,
+  shape: 'rounded',
+};
+
+export const MIN_CAMERA_SIZE = 0.1;
+export const MAX_CAMERA_SIZE = 0.4;
+
+export const CAMERA_CORNER_LABELS: Record<CameraCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+};
+
+export const CAMERA_SHAPE_LABELS: Record<CameraShape, string> = {
+  rectangle: 'Rectangle',
+  rounded: 'Rounded',
+  circle: 'Circle',
+};
+
+// Asked of the camera; the tile is small, so more is wasted
+export const CAMERA_CONSTRAINTS: MediaTrackConstraints = { width: { ideal: 1280 }, height: { ideal: 720 } };
+
+export function getCameraPip(event: IgniteEvent | null | undefined): CameraPipSettings {
+  return { ...DEFAULT_CAMERA_PIP, ...event?.camera };
+}
+
+/** The tile settings if this talk's recording shows the speaker, otherwise null */
+export function getTalkCamera(
+  event: IgniteEvent | null | undefined,
+  pres: EventPresentation | null | undefined,
+): CameraPipSettings | null {
+  const pip = getCameraPip(event);
+  return event?.recordEnabled && pip.enabled && !pres?.cameraOff ? pip : null;
+}
+
+/** Where the tile sits in a w×h frame: in its corner, above the progress bar */
+export function cameraTileRect(w: number, h: number, pip: CameraPipSettings, aspect: number) {
+  const width = Math.round(w * pip.size);
+  const height = Math.round(pip.shape === 'circle' ? width : width / aspect);
+  const margin = Math.round(w * 0.02);
+  // The overlay's bottom bar is 4% of the height
+  const bottomClear = Math.round(h * 0.04) + margin;
+  return {
+    x: pip.corner.endsWith('left') ? margin : w - margin - width,
+    y: pip.corner.startsWith('top') ? margin : h - bottomClear - height,
+    width,
+    height,
+  };
+}
+
+function tilePath(ctx: CanvasRenderingContext2D, rect: ReturnType<typeof cameraTileRect>, shape: CameraShape) {
+  ctx.beginPath();
+  if (shape === 'circle') {
+    ctx.arc(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, 0, Math.PI * 2);
+  } else {
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, shape === 'rounded' ? rect.width * 0.08 : 0);
+  }
+}
+
+/** Draw the camera's current frame as the tile, cropped to its shape */
+export function drawCameraTile(ctx: CanvasRenderingContext2D, video: HTMLVideoElement, pip: CameraPipSettings) {
+  const { videoWidth, videoHeight } = video;
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !videoWidth || !videoHeight) return;
+  const { width: w, height: h } = ctx.canvas;
+  const rect = cameraTileRect(w, h, pip, videoWidth / videoHeight);
+
+  ctx.save();
+  tilePath(ctx, rect, pip.shape);
+  ctx.clip();
+  const crop = fitRect(videoWidth, videoHeight, rect.width, rect.height, 'cover');
+  ctx.drawImage(video, rect.x + crop.x, rect.y + crop.y, crop.width, crop.height);
+  ctx.restore();
+
+  // Thin edge so the tile reads against any slide
+  ctx.save();
+  tilePath(ctx, rect, pip.shape);
+  ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+  ctx.lineWidth = Math.max(2, Math.round(w * 0.002));
+  ctx.stroke();
+  ctx.restore();
+}
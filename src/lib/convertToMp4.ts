@@ -57,3 +57,33 @@ export async function convertWebmToMp4(
 
   return mp4Blob;
 }
+
+/**
+ * Join recordings of the same talk (made with the same codecs) end to end,
+ * without re-encoding. Used when a talk was resumed after a reload.
+ */
+export async function joinRecordings(parts: Blob[]): Promise<Blob> {
+  const ff = await getFFmpeg();
+  const type = parts[0].type || 'video/webm';
+  const ext = type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+  const names: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const name = `part${i}.${ext}`;
+    await ff.writeFile(name, await fetchFile(parts[i]));
+    names.push(name);
+  }
+  await ff.writeFile('parts.txt', names.map((n) => `file '${n}'`).join('\n'));
+
+  await ff.exec(['-f', 'concat', '-safe', '0', '-i', 'parts.txt', '-c', 'copy', `joined.${ext}`]);
+
+  const outputData = await ff.readFile(`joined.${ext}`);
+  const buffer = (outputData as Uint8Array).buffer as ArrayBuffer;
+  const joined = new Blob([new Uint8Array(buffer)], { type });
+
+  for (const name of [...names, 'parts.txt', `joined.${ext}`]) {
+    await ff.deleteFile(name);
+  }
+
+  return joined;
+}
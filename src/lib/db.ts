@@ -1,7 +1,10 @@
-import type { IgniteEvent, EventPresentation, ShareableEvent } from '../types';
+import type {
+  IgniteEvent, EventPresentation, ShareableEvent, RunLogEntry, RunCheckpoint, RecordingChunk, SlideCacheEntry,
+  DeckVersion,
+} from '../types';
 
 const DB_NAME = 'ignite-events';
-const DB_VERSION = 3;
+const DB_VERSION = 8;
 
 let dbInstance: IDBDatabase | null = null;
 
@@ -32,6 +35,31 @@ function openDb(): Promise<IDBDatabase> {
       if (oldVersion < 3) {
         db.createObjectStore('shared-events');
       }
+
+      if (oldVersion < 4) {
+        const logStore = db.createObjectStore('run-log', { keyPath: 'id' });
+        logStore.createIndex('eventId', 'eventId', { unique: false });
+      }
+
+      if (oldVersion < 5) {
+        db.createObjectStore('run-state');
+        const chunkStore = db.createObjectStore('recording-chunks', { autoIncrement: true });
+        chunkStore.createIndex('presId', 'presId', { unique: false });
+      }
+
+      if (oldVersion < 6) {
+        const cacheStore = db.createObjectStore('slide-cache', { keyPath: ['presId', 'renderKey'] });
+        cacheStore.createIndex('presId', 'presId', { unique: false });
+      }
+
+      if (oldVersion < 7) {
+        db.createObjectStore('deck-images');
+      }
+
+      if (oldVersion < 8) {
+        const versionStore = db.createObjectStore('deck-versions', { keyPath: 'id' });
+        versionStore.createIndex('presId', 'presId', { unique: false });
+      }
     };
 
     // Handle blocked upgrade (old connection still open in another tab/HMR)
@@ -111,12 +139,24 @@ export async function putEvent(event: IgniteEvent): Promise<void> {
 export async function deleteEvent(id: string): Promise<void> {
   const db = await openDb();
   const hasRec = hasRecordingsStore(db);
+  const hasLog = hasRunLogStore(db);
+  const hasRecovery = hasRecoveryStores(db);
+  const hasCache = hasSlideCacheStore(db);
+  const hasImages = hasDeckImagesStore(db);
+  const hasVersions = hasDeckVersionsStore(db);
   const stores = ['events', 'presentations', 'logos', 'pdfs'];
   if (hasRec) stores.push('recordings');
+  if (hasLog) stores.push('run-log');
+  if (hasRecovery) stores.push('run-state', 'recording-chunks');
+  if (hasCache) stores.push('slide-cache');
+  if (hasImages) stores.push('deck-images');
+  if (hasVersions) stores.push('deck-versions');
   const tx = db.transaction(stores, 'readwrite');
 
   tx.objectStore('events').delete(id);
   tx.objectStore('logos').delete(id);
+  if (hasLog) deleteRunLogEntries(tx.objectStore('run-log'), id);
+  if (hasRecovery) tx.objectStore('run-state').delete(id);
 
   // Cascade: delete all presentations and their PDFs + recordings
   const presStore = tx.objectStore('presentations');
@@ -128,6 +168,10 @@ export async function deleteEvent(id: string): Promise<void> {
       presStore.delete(pres.id);
       tx.objectStore('pdfs').delete(pres.id);
       if (hasRec) tx.objectStore('recordings').delete(pres.id);
+      if (hasRecovery) deletePresEntries(tx.objectStore('recording-chunks'), pres.id);
+      if (hasCache) deletePresEntries(tx.objectStore('slide-cache'), pres.id);
+      if (hasImages) tx.objectStore('deck-images').delete(pres.id);
+      if (hasVersions) deletePresEntries(tx.objectStore('deck-versions'), pres.id);
     }
   };
 
@@ -155,10 +199,18 @@ export async function deletePresentation(id: string): Promise<void> {
   const db = await openDb();
   const stores = ['presentations', 'pdfs'];
   if (hasRecordingsStore(db)) stores.push('recordings');
+  if (hasRecoveryStores(db)) stores.push('recording-chunks');
+  if (hasSlideCacheStore(db)) stores.push('slide-cache');
+  if (hasDeckImagesStore(db)) stores.push('deck-images');
+  if (hasDeckVersionsStore(db)) stores.push('deck-versions');
   const tx = db.transaction(stores, 'readwrite');
   tx.objectStore('presentations').delete(id);
   tx.objectStore('pdfs').delete(id);
   if (hasRecordingsStore(db)) tx.objectStore('recordings').delete(id);
+  if (hasRecoveryStores(db)) deletePresEntries(tx.objectStore('recording-chunks'), id);
+  if (hasSlideCacheStore(db)) deletePresEntries(tx.objectStore('slide-cache'), id);
+  if (hasDeckImagesStore(db)) tx.objectStore('deck-images').delete(id);
+  if (hasDeckVersionsStore(db)) deletePresEntries(tx.objectStore('deck-versions'), id);
   await txComplete(tx);
 }
 
@@ -211,8 +263,84 @@ export async function getPdfBlob(presentationId: string): Promise<Blob | undefin
 
 export async function putPdfBlob(presentationId: string, blob: Blob): Promise<void> {
   const db = await openDb();
-  const tx = db.transaction('pdfs', 'readwrite');
+  const hasCache = hasSlideCacheStore(db);
+  const tx = db.transaction(hasCache ? ['pdfs', 'slide-cache'] : 'pdfs', 'readwrite');
   tx.objectStore('pdfs').put(blob, presentationId);
+  // Slides rendered from the old file are stale now
+  if (hasCache) deletePresEntries(tx.objectStore('slide-cache'), presentationId);
+  await txComplete(tx);
+}
+
+export async function deletePdfBlob(presentationId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction('pdfs', 'readwrite');
+  tx.objectStore('pdfs').delete(presentationId);
+  await txComplete(tx);
+}
+
+// ── Image decks: one blob per slide, in slide order ──
+
+function hasDeckImagesStore(db: IDBDatabase): boolean {
+  return db.objectStoreNames.contains('deck-images');
+}
+
+export async function getDeckImages(presentationId: string): Promise<Blob[] | undefined> {
+  const db = await openDb();
+  if (!hasDeckImagesStore(db)) return undefined;
+  const tx = db.transaction('deck-images', 'readonly');
+  return reqToPromise(tx.objectStore('deck-images').get(presentationId));
+}
+
+export async function putDeckImages(presentationId: string, images: Blob[]): Promise<void> {
+  const db = await openDb();
+  if (!hasDeckImagesStore(db)) {
+    throw new Error('Image decks need a newer database — close other tabs and reload');
+  }
+  const hasCache = hasSlideCacheStore(db);
+  const tx = db.transaction(hasCache ? ['deck-images', 'slide-cache'] : 'deck-images', 'readwrite');
+  tx.objectStore('deck-images').put(images, presentationId);
+  if (hasCache) deletePresEntries(tx.objectStore('slide-cache'), presentationId);
+  await txComplete(tx);
+}
+
+export async function deleteDeckImages(presentationId: string): Promise<void> {
+  const db = await openDb();
+  if (!hasDeckImagesStore(db)) return;
+  const tx = db.transaction('deck-images', 'readwrite');
+  tx.objectStore('deck-images').delete(presentationId);
+  await txComplete(tx);
+}
+
+// ── Deck versions: earlier decks of a talk, kept on replace ──
+
+function hasDeckVersionsStore(db: IDBDatabase): boolean {
+  return db.objectStoreNames.contains('deck-versions');
+}
+
+/** Oldest first */
+export async function getDeckVersions(presId: string): Promise<DeckVersion[]> {
+  const db = await openDb();
+  if (!hasDeckVersionsStore(db)) return [];
+  const tx = db.transaction('deck-versions', 'readonly');
+  const versions: DeckVersion[] = await reqToPromise(tx.objectStore('deck-versions').index('presId').getAll(presId));
+  return versions.sort((a, b) => a.version - b.version);
+}
+
+export async function putDeckVersion(version: DeckVersion): Promise<void> {
+  const db = await openDb();
+  if (!hasDeckVersionsStore(db)) {
+    throw new Error('Deck history needs a newer database — close other tabs and reload');
+  }
+  const tx = db.transaction('deck-versions', 'readwrite');
+  tx.objectStore('deck-versions').put(version);
+  await txComplete(tx);
+}
+
+export async function deleteDeckVersion(id: string): Promise<void> {
+  const db = await openDb();
+  if (!hasDeckVersionsStore(db)) return;
+  const tx = db.transaction('deck-versions', 'readwrite');
+  tx.objectStore('deck-versions').delete(id);
   await txComplete(tx);
 }
 
@@ -269,3 +397,137 @@ export async function getSharedEvent(slug: string): Promise<ShareableEvent | nul
   const result = await reqToPromise(tx.objectStore('shared-events').get(slug));
   return result ?? null;
 }
+
+// ── Run log ──
+
+function hasRunLogStore(db: IDBDatabase): boolean {
+  return db.objectStoreNames.contains('run-log');
+}
+
+function deleteRunLogEntries(store: IDBObjectStore, eventId: string): void {
+  const keysRequest = store.index('eventId').getAllKeys(eventId);
+  keysRequest.onsuccess = () => {
+    for (const key of keysRequest.result) store.delete(key);
+  };
+}
+
+export async function addRunLogEntry(entry: RunLogEntry): Promise<void> {
+  const db = await openDb();
+  if (!hasRunLogStore(db)) return;
+  const tx = db.transaction('run-log', 'readwrite');
+  tx.objectStore('run-log').put(entry);
+  await txComplete(tx);
+}
+
+export async function getRunLog(eventId: string): Promise<RunLogEntry[]> {
+  const db = await openDb();
+  if (!hasRunLogStore(db)) return [];
+  const tx = db.transaction('run-log', 'readonly');
+  const entries = await reqToPromise(tx.objectStore('run-log').index('eventId').getAll(eventId));
+  return entries.sort((a, b) => a.at - b.at);
+}
+
+export async function clearRunLog(eventId: string): Promise<void> {
+  const db = await openDb();
+  if (!hasRunLogStore(db)) return;
+  const tx = db.transaction('run-log', 'readwrite');
+  deleteRunLogEntries(tx.objectStore('run-log'), eventId);
+  await txComplete(tx);
+}
+
+// ── Crash recovery: run checkpoints + streamed recording chunks ──
+
+function hasRecoveryStores(db: IDBDatabase): boolean {
+  return db.objectStoreNames.contains('run-state') && db.objectStoreNames.contains('recording-chunks');
+}
+
+/** Delete everything a presentation has in a store with a presId index */
+function deletePresEntries(store: IDBObjectStore, presId: string): void {
+  const keysRequest = store.index('presId').getAllKeys(presId);
+  keysRequest.onsuccess = () => {
+    for (const key of keysRequest.result) store.delete(key);
+  };
+}
+
+export async function getRunCheckpoint(eventId: string): Promise<RunCheckpoint | undefined> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) return undefined;
+  const tx = db.transaction('run-state', 'readonly');
+  return reqToPromise(tx.objectStore('run-state').get(eventId));
+}
+
+export async function putRunCheckpoint(checkpoint: RunCheckpoint): Promise<void> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) return;
+  const tx = db.transaction('run-state', 'readwrite');
+  tx.objectStore('run-state').put(checkpoint, checkpoint.eventId);
+  await txComplete(tx);
+}
+
+export async function deleteRunCheckpoint(eventId: string): Promise<void> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) return;
+  const tx = db.transaction('run-state', 'readwrite');
+  tx.objectStore('run-state').delete(eventId);
+  await txComplete(tx);
+}
+
+/** Throws if the chunk can't be stored, so the recorder keeps it in memory instead */
+export async function appendRecordingChunk(chunk: RecordingChunk): Promise<void> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) throw new Error('recording-chunks store not available');
+  const tx = db.transaction('recording-chunks', 'readwrite');
+  tx.objectStore('recording-chunks').add(chunk);
+  await txComplete(tx);
+}
+
+/** Chunks of a talk in arrival order (keys auto-increment) */
+export async function getRecordingChunks(presId: string): Promise<RecordingChunk[]> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) return [];
+  const tx = db.transaction('recording-chunks', 'readonly');
+  return reqToPromise(tx.objectStore('recording-chunks').index('presId').getAll(presId));
+}
+
+export async function deleteRecordingChunks(presId: string): Promise<void> {
+  const db = await openDb();
+  if (!hasRecoveryStores(db)) return;
+  const tx = db.transaction('recording-chunks', 'readwrite');
+  deletePresEntries(tx.objectStore('recording-chunks'), presId);
+  await txComplete(tx);
+}
+
+// ── Slide cache: rendered decks, keyed by [presId, renderKey] ──
+
+function hasSlideCacheStore(db: IDBDatabase): boolean {
+  return db.objectStoreNames.contains('slide-cache');
+}
+
+export async function getSlideCache(presId: string, renderKey: string): Promise<SlideCacheEntry | undefined> {
+  const db = await openDb();
+  if (!hasSlideCacheStore(db)) return undefined;
+  const tx = db.transaction('slide-cache', 'readonly');
+  return reqToPromise(tx.objectStore('slide-cache').get([presId, renderKey]));
+}
+
+/** Store a render, replacing whatever the presentation had cached at other sizes */
+export async function putSlideCache(entry: SlideCacheEntry): Promise<void> {
+  const db = await openDb();
+  if (!hasSlideCacheStore(db)) return;
+  const tx = db.transaction('slide-cache', 'readwrite');
+  const store = tx.objectStore('slide-cache');
+  const keysRequest = store.index('presId').getAllKeys(entry.presId);
+  keysRequest.onsuccess = () => {
+    for (const key of keysRequest.result) store.delete(key);
+    store.put(entry);
+  };
+  await txComplete(tx);
+}
+
+/** [presId, renderKey] of every cached render (reads keys only, not the slides) */
+export async function getSlideCacheKeys(): Promise<[string, string][]> {
+  const db = await openDb();
+  if (!hasSlideCacheStore(db)) return [];
+  const tx = db.transaction('slide-cache', 'readonly');
+  return (await reqToPromise(tx.objectStore('slide-cache').getAllKeys())) as [string, string][];
+}
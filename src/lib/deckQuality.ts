@@ -0,0 +1,183 @@
+import type { DeckIssue, RenderedSlide, SlideCountFix, TalkFormat } from '../types';
+import { ASPECT_TOLERANCE, deckAspectRatio } from './slideFit';
+
+// Upload-time checks on a rendered deck. Everything here is a warning: the
+// talk still plays. Only a wrong slide count blocks a deck (see slideCountIssue).
+
+// Below this a slide looks soft on a 1080p projector
+const MIN_SLIDE_WIDTH = 1280;
+const MIN_SLIDE_HEIGHT = 720;
+// Heavy decks are slow to store, render and sync
+const LARGE_FILE_BYTES = 20 * 1024 * 1024;
+// Thumbnails are compared as tiny greyscale grids
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 18;
+// Luminance spread (0-255) under which a slide is one flat colour
+const BLANK_MAX_DEVIATION = 4;
+// Mean luminance difference under which two slides look the same
+const DUPLICATE_MAX_DIFFERENCE = 3;
+
+function slideList(slides: number[]): string {
+  return slides.length === 1 ? `Slide ${slides[0]}` : `Slides ${slides.join(', ')}`;
+}
+
+/**
+ * The blocking issue for a deck whose page count doesn't match the format,
+ * or a note on how `fix` made it fit
+ */
+export function slideCountIssue(count: number, format: TalkFormat, fix?: SlideCountFix): DeckIssue | null {
+  if (count === format.slideCount) return null;
+  const diff = Math.abs(count - format.slideCount);
+  if (fix === 'trim' && count > format.slideCount) {
+    return { kind: 'slide-count', severity: 'warning', message: `The last ${diff} page${diff !== 1 ? 's were' : ' was'} dropped to fit the format.` };
+  }
+  if (fix === 'pad' && count < format.slideCount) {
+    const added = Array.from({ length: diff }, (_, i) => count + i + 1);
+    return { kind: 'slide-count', severity: 'warning', message: `${diff} blank slide${diff !== 1 ? 's were' : ' was'} added to fit the format.`, slides: added };
+  }
+  return {
+    kind: 'slide-count',
+    severity: 'error',
+    message: count > format.slideCount
+      ? `The deck has ${count} pages, ${diff} more than the ${format.slideCount} this format needs.`
+      : `The deck has ${count} pages, ${diff} short of the ${format.slideCount} this format needs.`,
+  };
+}
+
+/**
+ * A stored deck's issues against another format. Only the slide-count issue
+ * is redone: the other checks are about the pages, which haven't changed.
+ */
+export function recheckSlideCount(
+  issues: DeckIssue[] | undefined,
+  count: number,
+  format: TalkFormat,
+  fix?: SlideCountFix,
+): DeckIssue[] | undefined {
+  const countIssue = slideCountIssue(count, format, fix);
+  const rest = (issues ?? []).filter((issue) => issue.kind !== 'slide-count');
+  const next = countIssue ? [countIssue, ...rest] : rest;
+  return next.length > 0 ? next : undefined;
+}
+
+/** Greyscale samples of each slide's thumbnail */
+async function sampleThumbnails(slides: RenderedSlide[]): Promise<Uint8Array[]> {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  const samples: Uint8Array[] = [];
+  for (const slide of slides) {
+    const bitmap = await createImageBitmap(slide.thumbnail);
+    ctx.drawImage(bitmap, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    bitmap.close();
+    const { data } = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    const grey = new Uint8Array(SAMPLE_WIDTH * SAMPLE_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    samples.push(grey);
+  }
+  return samples;
+}
+
+function deviation(sample: Uint8Array): number {
+  const mean = sample.reduce((sum, v) => sum + v, 0) / sample.length;
+  const variance = sample.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sample.length;
+  return Math.sqrt(variance);
+}
+
+function difference(a: Uint8Array, b: Uint8Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+}
+
+function checkSizes(slides: RenderedSlide[]): DeckIssue | null {
+  // The most common aspect ratio is the deck's; the rest stand out
+  const main = deckAspectRatio(slides);
+  const odd = slides.filter((s) => Math.abs(s.width / s.height - main) >= ASPECT_TOLERANCE).map((s) => s.pageNumber);
+  if (odd.length === 0) return null;
+  return {
+    kind: 'mixed-sizes',
+    severity: 'warning',
+    message: `${slideList(odd)} ${odd.length === 1 ? 'has' : 'have'} a different page size from the rest and will be fitted to the stage by the slide fit setting.`,
+    slides: odd,
+  };
+}
+
+function checkResolution(slides: RenderedSlide[]): DeckIssue | null {
+  const low = slides
+    .filter((s) => Math.max(s.width, s.height) < MIN_SLIDE_WIDTH || Math.min(s.width, s.height) < MIN_SLIDE_HEIGHT)
+    .map((s) => s.pageNumber);
+  if (low.length === 0) return null;
+  return {
+    kind: 'low-resolution',
+    severity: 'warning',
+    message: `${slideList(low)} ${low.length === 1 ? 'is' : 'are'} below ${MIN_SLIDE_WIDTH}×${MIN_SLIDE_HEIGHT} and may look blurry on the projector.`,
+    slides: low,
+  };
+}
+
+/**
+ * Warnings for a deck that fits the format: page sizes, resolution,
+ * blank and duplicate slides, file size. `fileSize` is the uploaded total;
+ * `padded` is how many slides at the end are padding.
+ */
+export async function analyzeDeck(slides: RenderedSlide[], fileSize: number, padded = 0): Promise<DeckIssue[]> {
+  const issues: DeckIssue[] = [];
+  // Blank slides added by the 'pad' fix are meant to be blank
+  slides = slides.slice(0, slides.length - padded);
+  if (slides.length === 0) return issues;
+
+  const sizes = checkSizes(slides);
+  if (sizes) issues.push(sizes);
+  const resolution = checkResolution(slides);
+  if (resolution) issues.push(resolution);
+
+  const samples = await sampleThumbnails(slides);
+  // A clip's first frame is often black; it isn't a blank slide
+  const blank = slides
+    .filter((s, i) => !s.media && deviation(samples[i]) < BLANK_MAX_DEVIATION)
+    .map((s) => s.pageNumber);
+  if (blank.length > 0) {
+    issues.push({
+      kind: 'blank-slides',
+      severity: 'warning',
+      message: `${slideList(blank)} ${blank.length === 1 ? 'looks' : 'look'} blank.`,
+      slides: blank,
+    });
+  }
+
+  // Blank slides all match each other, so they are left out here
+  const duplicates = new Set<number>();
+  for (let i = 0; i < slides.length; i++) {
+    if (blank.includes(slides[i].pageNumber)) continue;
+    for (let j = i + 1; j < slides.length; j++) {
+      if (blank.includes(slides[j].pageNumber)) continue;
+      if (difference(samples[i], samples[j]) < DUPLICATE_MAX_DIFFERENCE) {
+        duplicates.add(slides[i].pageNumber);
+        duplicates.add(slides[j].pageNumber);
+      }
+    }
+  }
+  if (duplicates.size > 0) {
+    const dupes = [...duplicates].sort((a, b) => a - b);
+    issues.push({
+      kind: 'duplicate-slides',
+      severity: 'warning',
+      message: `${slideList(dupes)} look the same. Check for a slide pasted twice.`,
+      slides: dupes,
+    });
+  }
+
+  if (fileSize > LARGE_FILE_BYTES) {
+    issues.push({
+      kind: 'large-file',
+      severity: 'warning',
+      message: `The deck is ${(fileSize / (1024 * 1024)).toFixed(1)} MB. Large decks are slow to load; compressing images helps.`,
+    });
+  }
+  return issues;
+}
@@ -0,0 +1,80 @@
+import type { DeckFields, DeckKind, DeckVersion, EventPresentation } from '../types';
+import {
+  getPdfBlob, putPdfBlob, deletePdfBlob, getDeckImages, putDeckImages, deleteDeckImages,
+  getDeckVersions, putDeckVersion, deleteDeckVersion,
+} from './db';
+import { getPdfPageCount } from './pdfRenderer';
+
+// Replacing a talk's deck keeps the old one as a DeckVersion, so a fix sent
+// the night before can be rolled back. The talk itself (names, timing,
+// recording) stays as it is.
+
+// Oldest versions beyond this are dropped
+const MAX_DECK_VERSIONS = 10;
+
+export function getDeckFields(pres: EventPresentation): DeckFields {
+  const { fileName, deckKind, slideCount, countFix, mediaSlides, deckIssues, pdfPassword } = pres;
+  return { fileName, deckKind, slideCount, countFix, mediaSlides, deckIssues, pdfPassword };
+}
+
+/** Write a deck's files to the store for its kind, clearing the other one and the slide cache */
+export async function storeDeckFiles(presId: string, kind: DeckKind, files: Blob[]): Promise<void> {
+  if (kind === 'images') {
+    await putDeckImages(presId, files);
+    await deletePdfBlob(presId);
+  } else {
+    await putPdfBlob(presId, files[0]);
+    await deleteDeckImages(presId);
+  }
+}
+
+/** Pages in a talk's stored deck, before any count fix */
+export async function getDeckPageCount(pres: EventPresentation): Promise<number> {
+  // Without a fix the deck was stored as uploaded
+  if (!pres.countFix && pres.slideCount !== undefined) return pres.slideCount;
+  if (pres.deckKind === 'images') return (await getDeckImages(pres.id))?.length ?? 0;
+  const pdf = await getPdfBlob(pres.id);
+  if (!pdf) throw new Error('PDF not found');
+  return getPdfPageCount(pdf, pres.pdfPassword);
+}
+
+async function readDeckFiles(pres: EventPresentation): Promise<Blob[]> {
+  if (pres.deckKind === 'images') return (await getDeckImages(pres.id)) ?? [];
+  const pdf = await getPdfBlob(pres.id);
+  return pdf ? [pdf] : [];
+}
+
+/** Keep the talk's current deck as a version; returns the number for the deck that replaces it */
+export async function archiveCurrentDeck(pres: EventPresentation): Promise<number> {
+  const versions = await getDeckVersions(pres.id);
+  const current = pres.deckVersion ?? 1;
+  const files = await readDeckFiles(pres);
+  if (files.length > 0) {
+    const archived: DeckVersion = {
+      ...getDeckFields(pres),
+      id: crypto.randomUUID(),
+      presId: pres.id,
+      version: current,
+      files,
+      replacedAt: Date.now(),
+    };
+    await putDeckVersion(archived);
+    versions.push(archived);
+  }
+
+  // Drop the longest-replaced beyond the limit
+  const byAge = [...versions].sort((a, b) => a.replacedAt - b.replacedAt);
+  for (const old of byAge.slice(0, Math.max(0, byAge.length - MAX_DECK_VERSIONS))) {
+    await deleteDeckVersion(old.id);
+  }
+  return Math.max(current, ...versions.map((v) => v.version)) + 1;
+}
+
+/** Make an earlier version current again; the deck it replaces becomes a version */
+export async function restoreDeckVersion(pres: EventPresentation, version: DeckVersion): Promise<EventPresentation> {
+  await archiveCurrentDeck(pres);
+  await storeDeckFiles(pres.id, version.deckKind ?? 'pdf', version.files);
+  await deleteDeckVersion(version.id);
+  const { fileName, deckKind, slideCount, countFix, mediaSlides, deckIssues, pdfPassword } = version;
+  return { ...pres, fileName, deckKind, slideCount, countFix, mediaSlides, deckIssues, pdfPassword, deckVersion: version.version };
+}
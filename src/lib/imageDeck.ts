@@ -0,0 +1,176 @@
+import type { RenderedSlide, TalkFormat } from '../types';
+import { readZip, ZipFormatError } from './zip';
+import type { DeckRenderOptions } from './pdfRenderer';
+import { PdfValidationError, RenderCancelledError, THUMB_WIDTH, pagesForFormat, padWithBlankSlides } from './pdfRenderer';
+import { type RenderTarget, fitWithin, getRenderTarget } from './renderTarget';
+
+// Decks made of images (a ZIP, or several files dropped at once) instead of a
+// PDF. Stills are the slides as-is, scaled down if larger than the render
+// target; clips (MP4/WebM) and animated GIF/WebP keep their file as slide
+// media, with the first frame as the still.
+
+const SLIDE_EXTENSIONS = /\.(png|jpe?g|webp|gif|mp4|webm)$/i;
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+// slide-2 before slide-10, like a file browser
+const naturalOrder = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function isSlideFile(name: string): boolean {
+  return SLIDE_EXTENSIONS.test(name);
+}
+
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function withSlideType(name: string, blob: Blob): Blob {
+  const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  return blob.type ? blob : new Blob([blob], { type: MIME_BY_EXTENSION[ext] });
+}
+
+/** Slide files from a drop, in natural filename order */
+export async function collectDeckImages(files: File[]): Promise<Blob[]> {
+  let named: { name: string; blob: Blob }[];
+  if (files.length === 1 && isZipFile(files[0])) {
+    try {
+      named = await readZip(files[0]);
+    } catch (err) {
+      if (err instanceof ZipFormatError) throw new PdfValidationError(`Could not open the ZIP: ${err.message}.`);
+      throw err;
+    }
+  } else {
+    named = files.map((f) => ({ name: f.name, blob: f }));
+  }
+
+  const images = named
+    // Skip macOS resource forks and hidden files that ride along in ZIPs
+    .filter(({ name }) => !name.startsWith('__MACOSX/') && !baseName(name).startsWith('.') && isSlideFile(name))
+    .sort((a, b) => naturalOrder.compare(baseName(a.name), baseName(b.name)));
+
+  if (images.length === 0) {
+    throw new PdfValidationError('No slides found. Use a PDF, a ZIP of images, or PNG/JPG/WebP/GIF/MP4/WebM files.');
+  }
+  return images.map(({ name, blob }) => withSlideType(name, blob));
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('Failed to encode slide'))), type, quality);
+  });
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number, targetWidth: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = Math.round((height * targetWidth) / width);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Photos stay lossy when scaled; anything else becomes PNG
+function stillType(blob: Blob): string {
+  return blob.type === 'image/jpeg' || blob.type === 'image/webp' ? blob.type : 'image/png';
+}
+
+/** A clip's first frame, fitted to the target, and its thumbnail */
+async function readVideoFrame(blob: Blob, target: RenderTarget): Promise<{ width: number; height: number; still: Blob; thumbnail: Blob }> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Video could not be decoded'));
+      video.src = url;
+    });
+    const { videoWidth, videoHeight } = video;
+    const frame = drawScaled(video, videoWidth, videoHeight, fitWithin(videoWidth, videoHeight, target).width);
+    const still = await canvasToBlob(frame, 'image/png');
+    const thumbnail = await canvasToBlob(drawScaled(video, videoWidth, videoHeight, THUMB_WIDTH), 'image/jpeg', 0.8);
+    return { width: frame.width, height: frame.height, still, thumbnail };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** GIFs are assumed animated; WebP is only known to be with ImageDecoder */
+async function isAnimatedImage(blob: Blob): Promise<boolean> {
+  if (typeof ImageDecoder !== 'undefined' && await ImageDecoder.isTypeSupported(blob.type)) {
+    const decoder = new ImageDecoder({ data: blob.stream(), type: blob.type });
+    try {
+      await decoder.tracks.ready;
+      return decoder.tracks.selectedTrack?.animated ?? false;
+    } finally {
+      decoder.close();
+    }
+  }
+  return blob.type === 'image/gif';
+}
+
+async function renderImageSlide(blob: Blob, pageNumber: number, target: RenderTarget): Promise<RenderedSlide> {
+  if (blob.type.startsWith('video/')) {
+    const { width, height, still, thumbnail } = await readVideoFrame(blob, target);
+    return { pageNumber, blob: still, width, height, thumbnail, media: blob, mediaKind: 'video' };
+  }
+
+  // createImageBitmap gives the first frame of an animation
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const thumbnail = await canvasToBlob(drawScaled(bitmap, bitmap.width, bitmap.height, THUMB_WIDTH), 'image/jpeg', 0.8);
+    const slide: RenderedSlide = { pageNumber, blob, width: bitmap.width, height: bitmap.height, thumbnail };
+    const fittedWidth = fitWithin(bitmap.width, bitmap.height, target).width;
+    const animated = await isAnimatedImage(blob);
+    if (animated || fittedWidth < bitmap.width) {
+      const still = drawScaled(bitmap, bitmap.width, bitmap.height, fittedWidth);
+      slide.blob = await canvasToBlob(still, animated ? 'image/png' : stillType(blob), 0.92);
+      slide.width = still.width;
+      slide.height = still.height;
+    }
+    if (animated) {
+      slide.media = blob;
+      slide.mediaKind = 'animated';
+    }
+    return slide;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Check the files against the format and turn them into slides, same contract as renderPdfSlides */
+export async function renderImageSlides(
+  images: Blob[],
+  format: TalkFormat,
+  onProgress?: (page: number) => void,
+  signal?: AbortSignal,
+  { countFix, target = getRenderTarget() }: DeckRenderOptions = {},
+): Promise<RenderedSlide[]> {
+  const count = pagesForFormat(images.length, format, countFix);
+
+  const slides: RenderedSlide[] = [];
+  for (let i = 0; i < count; i++) {
+    if (signal?.aborted) throw new RenderCancelledError();
+    onProgress?.(i + 1);
+    try {
+      slides.push(await renderImageSlide(images[i], i + 1, target));
+    } catch {
+      throw new PdfValidationError(`Slide ${i + 1} is not an image or clip this browser can open.`);
+    }
+  }
+  return padWithBlankSlides(slides, format.slideCount);
+}
@@ -0,0 +1,130 @@
+// Keyboard bindings for running a show.
+// Bindings are KeyboardEvent.code values so they follow the physical key,
+// whatever the layout. Presentation clickers pretend to be keyboards: most send
+// PageUp/PageDown, some add F5/Escape (start/stop) and B or "." (blank screen).
+// The map is saved per device, because clickers differ between venues.
+
+export type KeyAction =
+  | 'toggle-pause'
+  | 'next-slide'
+  | 'prev-slide'
+  | 'first-slide'
+  | 'last-slide'
+  | 'restart'
+  | 'blackout'
+  | 'freeze'
+  | 'exit'
+  | 'help';
+
+export type Keymap = Record<KeyAction, string[]>;
+
+export const KEY_ACTIONS: { action: KeyAction; label: string }[] = [
+  { action: 'toggle-pause', label: 'Start / pause / resume' },
+  { action: 'next-slide', label: 'Next slide' },
+  { action: 'prev-slide', label: 'Previous slide' },
+  { action: 'first-slide', label: 'First slide' },
+  { action: 'last-slide', label: 'Last slide' },
+  { action: 'restart', label: 'Restart talk (press twice)' },
+  { action: 'blackout', label: 'Black screen' },
+  { action: 'freeze', label: 'Freeze screen (timer keeps running)' },
+  { action: 'exit', label: 'Stop talk / close' },
+  { action: 'help', label: 'Show this help' },
+];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'toggle-pause': ['Space', 'F5'],
+  'next-slide': ['ArrowRight', 'ArrowDown', 'PageDown'],
+  'prev-slide': ['ArrowLeft', 'ArrowUp', 'PageUp'],
+  'first-slide': ['Home'],
+  'last-slide': ['End'],
+  restart: ['KeyR'],
+  blackout: ['KeyB', 'Period'],
+  freeze: ['KeyF'],
+  exit: ['Escape'],
+  help: ['Slash'],
+};
+
+const KEYMAP_KEY = 'keymap';
+
+/** Keys the screens handle themselves (slide numbers, confirm) — not remappable */
+const RESERVED_CODES = new Set(['Enter', 'NumpadEnter', 'Tab']);
+
+export function isReservedCode(code: string): boolean {
+  return RESERVED_CODES.has(code) || getDigit(code) !== null;
+}
+
+/** Saved bindings merged over the defaults, so newly added actions get theirs */
+export function loadKeymap(): Keymap {
+  try {
+    const raw = localStorage.getItem(KEYMAP_KEY);
+    if (!raw) return DEFAULT_KEYMAP;
+    const saved = JSON.parse(raw) as Partial<Keymap>;
+    const keymap = { ...DEFAULT_KEYMAP };
+    for (const { action } of KEY_ACTIONS) {
+      const codes = saved[action];
+      if (Array.isArray(codes)) keymap[action] = codes.filter((c) => typeof c === 'string');
+    }
+    return keymap;
+  } catch {
+    return DEFAULT_KEYMAP;
+  }
+}
+
+export function saveKeymap(keymap: Keymap): void {
+  localStorage.setItem(KEYMAP_KEY, JSON.stringify(keymap));
+}
+
+export function clearKeymap(): void {
+  localStorage.removeItem(KEYMAP_KEY);
+}
+
+export function getKeyAction(keymap: Keymap, code: string): KeyAction | null {
+  for (const { action } of KEY_ACTIONS) {
+    if (keymap[action].includes(code)) return action;
+  }
+  return null;
+}
+
+/** Bind `code` to `action`, taking it away from any other action */
+export function bindKey(keymap: Keymap, action: KeyAction, code: string): Keymap {
+  const next = { ...keymap };
+  for (const { action: other } of KEY_ACTIONS) {
+    next[other] = next[other].filter((c) => c !== code);
+  }
+  next[action] = [...next[action], code];
+  return next;
+}
+
+export function unbindKey(keymap: Keymap, action: KeyAction, code: string): Keymap {
+  return { ...keymap, [action]: keymap[action].filter((c) => c !== code) };
+}
+
+/** 0–9 from the top row or the numpad, else null */
+export function getDigit(code: string): number | null {
+  const match = /^(?:Digit|Numpad)(\d)$/.exec(code);
+  return match ? Number(match[1]) : null;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down',
+  Escape: 'Esc',
+  Slash: '?',
+  Period: '.',
+  Comma: ',',
+  Backspace: '⌫',
+};
+
+/** Human label for a KeyboardEvent.code ("KeyB" → "B") */
+export function formatKeyCode(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  const match = /^(?:Key|Digit)(.)$/.exec(code);
+  if (match) return match[1];
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+}
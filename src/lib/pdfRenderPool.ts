@@ -0,0 +1,145 @@
+// Worker pool for rendering PDF pages off the main thread. Each worker opens
+// its own copy of the document, and pages are handed out one at a time so a
+// slow page doesn't hold up the rest.
+
+import type { RenderedSlide } from '../types';
+import type { RenderTarget } from './renderTarget';
+
+export type PdfWorkerRequest =
+  | { type: 'open'; jobId: string; data: ArrayBuffer; password?: string }
+  | { type: 'render'; jobId: string; pageNumber: number; target: RenderTarget; thumbWidth: number }
+  | { type: 'close'; jobId: string };
+
+export type PdfWorkerResponse =
+  | { type: 'rendered'; jobId: string; slide: RenderedSlide }
+  | { type: 'error'; jobId: string; pageNumber: number; message: string };
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Rendering was cancelled');
+    this.name = 'RenderCancelledError';
+  }
+}
+
+/** The pool itself failed: a worker couldn't start or crashed. A bad page is a plain Error */
+export class RenderWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderWorkerError';
+  }
+}
+
+const MAX_WORKERS = 4;
+
+let pool: Worker[] | null = null;
+let nextJobId = 0;
+
+export function canRenderOffThread(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && 'convertToBlob' in OffscreenCanvas.prototype;
+}
+
+// Workers stay up between decks; spinning up pdf.js again costs more than idle workers
+function getPool(): Worker[] {
+  if (!pool) {
+    const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+    pool = Array.from({ length: size }, () =>
+      new Worker(new URL('../workers/pdfRenderWorker.ts', import.meta.url), { type: 'module' }));
+  }
+  return pool;
+}
+
+/** Drop the pool after a worker failure, so the next render starts fresh */
+function resetPool() {
+  pool?.forEach((w) => w.terminate());
+  pool = null;
+}
+
+/**
+ * Render pages 1..pageCount, each fitted to `target`, with thumbnails, in the pool. Resolves with the pages in order;
+ * `onPageDone` gets the number of pages finished so far.
+ */
+export function renderPagesInPool(
+  data: ArrayBuffer,
+  pageCount: number,
+  target: RenderTarget,
+  thumbWidth: number,
+  onPageDone?: (done: number) => void,
+  signal?: AbortSignal,
+  password?: string,
+): Promise<RenderedSlide[]> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RenderCancelledError());
+      return;
+    }
+
+    const jobId = `pdf-${++nextJobId}`;
+    let workers: Worker[];
+    try {
+      workers = getPool().slice(0, pageCount);
+    } catch (err) {
+      resetPool();
+      reject(new RenderWorkerError(`Could not start PDF render workers: ${err instanceof Error ? err.message : err}`));
+      return;
+    }
+    const queue = Array.from({ length: pageCount }, (_, i) => i + 1);
+    const pages: RenderedSlide[] = [];
+    let settled = false;
+
+    const post = (worker: Worker, request: PdfWorkerRequest, transfer: Transferable[] = []) => {
+      worker.postMessage(request, transfer);
+    };
+
+    const dispatch = (worker: Worker) => {
+      const pageNumber = queue.shift();
+      if (pageNumber !== undefined) post(worker, { type: 'render', jobId, pageNumber, target, thumbWidth });
+    };
+
+    const finish = (err?: Error) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      for (const worker of workers) {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onWorkerError);
+        post(worker, { type: 'close', jobId });
+      }
+      if (err) reject(err);
+      else resolve(pages.sort((a, b) => a.pageNumber - b.pageNumber));
+    };
+
+    function onMessage(this: Worker, e: MessageEvent<PdfWorkerResponse>) {
+      const msg = e.data;
+      if (msg.jobId !== jobId || settled) return;
+      if (msg.type === 'error') {
+        finish(new Error(`Failed to render slide ${msg.pageNumber}: ${msg.message}`));
+        return;
+      }
+      pages.push(msg.slide);
+      onPageDone?.(pages.length);
+      if (pages.length === pageCount) finish();
+      else dispatch(this);
+    }
+
+    function onWorkerError(e: ErrorEvent) {
+      e.preventDefault();
+      resetPool();
+      finish(new RenderWorkerError(`PDF render worker failed: ${e.message}`));
+    }
+
+    function onAbort() {
+      finish(new RenderCancelledError());
+    }
+
+    signal?.addEventListener('abort', onAbort);
+    for (const worker of workers) {
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onWorkerError);
+      const copy = data.slice(0);
+      post(worker, { type: 'open', jobId, data: copy, password }, [copy]);
+      dispatch(worker);
+    }
+  });
+}
@@ -1,10 +1,14 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import type { SlideImage, LoadedDeck } from '../types';
+import type { TalkFormat, RenderedSlide, SlideCountFix, EventPresentation } from '../types';
+import { getFormatLabel } from './talkFormat';
+import { type RenderTarget, getRenderTarget, pageScale } from './renderTarget';
+import { RenderCancelledError, RenderWorkerError, canRenderOffThread, renderPagesInPool } from './pdfRenderPool';
+
+export { RenderCancelledError } from './pdfRenderPool';
 
 pdfjsLib.GlobalWorkerOptions.workerSrc = `${import.meta.env.BASE_URL}pdf.worker.min.mjs`;
 
-const RENDER_SCALE = 2;
-const REQUIRED_PAGES = 20;
+export const THUMB_WIDTH = 240;
 
 export class PdfValidationError extends Error {
   constructor(message: string) {
@@ -13,83 +17,196 @@ export class PdfValidationError extends Error {
   }
 }
 
+/** An encrypted PDF opened without its password, or with the wrong one */
+export class PdfPasswordError extends Error {
+  readonly incorrect: boolean;
+
+  constructor(incorrect: boolean) {
+    super(incorrect ? 'Incorrect password' : 'This PDF needs a password');
+    this.name = 'PdfPasswordError';
+    this.incorrect = incorrect;
+  }
+}
+
+/** What a stored deck needs to render besides its files; `target` defaults to this screen's */
+export type DeckRenderOptions = Pick<EventPresentation, 'countFix' | 'pdfPassword'> & { target?: RenderTarget };
+
+/** pdf.js getDocument, with a password failure turned into PdfPasswordError */
+async function openPdf(data: ArrayBuffer, password?: string): Promise<pdfjsLib.PDFDocumentProxy> {
+  try {
+    return await pdfjsLib.getDocument({ data, password }).promise;
+  } catch (err) {
+    // pdf.js doesn't export PasswordException; it arrives by name
+    if (err instanceof Error && err.name === 'PasswordException') {
+      const { code } = err as Error & { code?: number };
+      throw new PdfPasswordError(code === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD);
+    }
+    throw err;
+  }
+}
+
+/** The error for a deck (PDF or images) that doesn't match the event format */
+export function slideCountError(count: number, format: TalkFormat): PdfValidationError {
+  return new PdfValidationError(
+    `Your deck has ${count} slide${count !== 1 ? 's' : ''}. Stories at this event use the ${getFormatLabel(format)} format: exactly ${format.slideCount} slides, ${format.slideSeconds} seconds each.`,
+  );
+}
+
+/** How many of a deck's pages make the talk, after the speaker's count fix; throws if the deck doesn't fit */
+export function pagesForFormat(count: number, format: TalkFormat, fix?: SlideCountFix): number {
+  if (count === format.slideCount) return count;
+  if (fix === 'trim' && count > format.slideCount) return format.slideCount;
+  if (fix === 'pad' && count < format.slideCount) return count;
+  throw slideCountError(count, format);
+}
+
+/** Fill a short deck up to `count` with white slides the size of its first slide */
+export async function padWithBlankSlides(slides: RenderedSlide[], count: number): Promise<RenderedSlide[]> {
+  if (slides.length >= count) return slides;
+  const { width, height } = slides[0];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  const blob = await canvasToBlob(canvas, 'image/png');
+
+  canvas.width = THUMB_WIDTH;
+  canvas.height = Math.round((height * THUMB_WIDTH) / width);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const thumbnail = await canvasToBlob(canvas, 'image/jpeg', 0.8);
+
+  const padded = [...slides];
+  while (padded.length < count) {
+    padded.push({ pageNumber: padded.length + 1, blob, width, height, thumbnail });
+  }
+  return padded;
+}
+
+// Set after a worker fails, so later decks skip straight to the main thread
+let offThreadBroken = false;
+
 async function renderFromArrayBuffer(
   arrayBuffer: ArrayBuffer,
-  fileName: string,
+  format: TalkFormat,
   onProgress?: (page: number) => void,
-): Promise<LoadedDeck> {
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+  signal?: AbortSignal,
+  { countFix, pdfPassword, target = getRenderTarget() }: DeckRenderOptions = {},
+): Promise<RenderedSlide[]> {
+  // pdf.js takes ownership of the buffer it is given, and the workers need it too
+  const pdf = await openPdf(arrayBuffer.slice(0), pdfPassword);
+
+  let pageCount: number;
+  try {
+    pageCount = pagesForFormat(pdf.numPages, format, countFix);
+  } catch (err) {
+    pdf.destroy();
+    throw err;
+  }
 
-  if (pdf.numPages !== REQUIRED_PAGES) {
-    throw new PdfValidationError(
-      `Your deck has ${pdf.numPages} slide${pdf.numPages !== 1 ? 's' : ''}. Stories use the fast PechaKucha format: exactly ${REQUIRED_PAGES} slides, 15 seconds each.`,
-    );
+  let mainPdf: pdfjsLib.PDFDocumentProxy | null = pdf;
+  if (canRenderOffThread() && !offThreadBroken) {
+    pdf.destroy();
+    mainPdf = null;
+    try {
+      const slides = await renderPagesInPool(arrayBuffer, pageCount, target, THUMB_WIDTH, onProgress, signal, pdfPassword);
+      return await padWithBlankSlides(slides, format.slideCount);
+    } catch (err) {
+      if (err instanceof RenderCancelledError) throw err;
+      console.warn('[PDF] Worker rendering failed, falling back to the main thread:', err);
+      // A page the workers choked on only sends this deck to the main thread
+      if (err instanceof RenderWorkerError) offThreadBroken = true;
+    }
+  }
+
+  mainPdf ??= await openPdf(arrayBuffer.slice(0), pdfPassword);
+  try {
+    return await padWithBlankSlides(await renderOnMainThread(mainPdf, pageCount, target, onProgress, signal), format.slideCount);
+  } finally {
+    mainPdf.destroy();
   }
+}
 
-  const slides: SlideImage[] = [];
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (b) => {
+        if (b) resolve(b);
+        else reject(new Error('Failed to encode slide'));
+      },
+      type,
+      quality,
+    );
+  });
+}
 
-  for (let i = 1; i <= REQUIRED_PAGES; i++) {
+/** Fallback where workers can't draw (no OffscreenCanvas) */
+async function renderOnMainThread(
+  pdf: pdfjsLib.PDFDocumentProxy,
+  pageCount: number,
+  target: RenderTarget,
+  onProgress?: (page: number) => void,
+  signal?: AbortSignal,
+): Promise<RenderedSlide[]> {
+  const slides: RenderedSlide[] = [];
+
+  for (let i = 1; i <= pageCount; i++) {
+    if (signal?.aborted) throw new RenderCancelledError();
     onProgress?.(i);
 
     const page = await pdf.getPage(i);
-    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: pageScale(base.width, base.height, target) });
+
+    // The fitted scale rarely lands on whole pixels
+    const width = Math.floor(viewport.width);
+    const height = Math.floor(viewport.height);
 
     const canvas = document.createElement('canvas');
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
+    canvas.width = width;
+    canvas.height = height;
     const ctx = canvas.getContext('2d')!;
 
     await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    const blob = await canvasToBlob(canvas, 'image/png');
 
-    const blob = await new Promise<Blob>((resolve, reject) => {
-      canvas.toBlob(
-        (b) => {
-          if (b) resolve(b);
-          else reject(new Error(`Failed to render slide ${i}`));
-        },
-        'image/png',
-      );
-    });
-
-    const objectUrl = URL.createObjectURL(blob);
+    const thumbCanvas = document.createElement('canvas');
+    thumbCanvas.width = THUMB_WIDTH;
+    thumbCanvas.height = Math.round((height * THUMB_WIDTH) / width);
+    thumbCanvas.getContext('2d')!.drawImage(canvas, 0, 0, thumbCanvas.width, thumbCanvas.height);
+    const thumbnail = await canvasToBlob(thumbCanvas, 'image/jpeg', 0.8);
 
     slides.push({
       pageNumber: i,
-      objectUrl,
-      width: viewport.width,
-      height: viewport.height,
+      blob,
+      width,
+      height,
+      thumbnail,
     });
   }
 
-  return {
-    fileName,
-    slides,
-    aspectRatio: slides[0].width / slides[0].height,
-  };
-}
-
-/** Load a File (from dropzone) and render all slides */
-export async function loadAndRenderPdf(
-  file: File,
-  onProgress?: (page: number) => void,
-): Promise<LoadedDeck> {
-  const arrayBuffer = await file.arrayBuffer();
-  return renderFromArrayBuffer(arrayBuffer, file.name, onProgress);
+  return slides;
 }
 
-/** Load a Blob (from IndexedDB) and render all slides */
-export async function renderPdfFromBlob(
+/** Render all slides and thumbnails, keeping the blobs (for the slide cache) */
+export async function renderPdfSlides(
   blob: Blob,
-  fileName: string,
+  format: TalkFormat,
   onProgress?: (page: number) => void,
-): Promise<LoadedDeck> {
+  signal?: AbortSignal,
+  options?: DeckRenderOptions,
+): Promise<RenderedSlide[]> {
   const arrayBuffer = await blob.arrayBuffer();
-  return renderFromArrayBuffer(arrayBuffer, fileName, onProgress);
+  return renderFromArrayBuffer(arrayBuffer, format, onProgress, signal, options);
 }
 
-/** Get page count without rendering (for validation UI) */
-export async function getPdfPageCount(blob: Blob): Promise<number> {
+/** Get page count without rendering (for validation UI); throws PdfPasswordError for a locked PDF */
+export async function getPdfPageCount(blob: Blob, password?: string): Promise<number> {
   const arrayBuffer = await blob.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  return pdf.numPages;
+  const pdf = await openPdf(arrayBuffer, password);
+  const count = pdf.numPages;
+  pdf.destroy();
+  return count;
 }
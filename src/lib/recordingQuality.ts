@@ -0,0 +1,74 @@
+import type { IgniteEvent, RecordingCodec, RecordingPreset, RecordingQuality } from '../types';
+
+// How talks are recorded: frame size, capture rate, bitrates and codec. The
+// presets cover the usual cases; custom keeps whatever values are set.
+
+export const RECORDING_PRESETS: Record<Exclude<RecordingPreset, 'custom'>, RecordingQuality> = {
+  // Small files for sharing; slides are still, so one frame a second is plenty
+  economy: {
+    preset: 'economy',
+    width: 1280,
+    height: 720,
+    frameRate: 1,
+    videoBitsPerSecond: 1_500_000,
+    audioBitsPerSecond: 96_000,
+    codec: 'auto',
+  },
+  // Full HD for editing and the archive
+  archival: {
+    preset: 'archival',
+    width: 1920,
+    height: 1080,
+    frameRate: 30,
+    videoBitsPerSecond: 6_000_000,
+    audioBitsPerSecond: 192_000,
+    codec: 'auto',
+  },
+};
+
+export const DEFAULT_RECORDING_QUALITY = RECORDING_PRESETS.economy;
+
+export const RECORDING_PRESET_LABELS: Record<RecordingPreset, string> = {
+  economy: '720p economy',
+  archival: '1080p archival',
+  custom: 'Custom',
+};
+
+export const RECORDING_CODEC_LABELS: Record<RecordingCodec, string> = {
+  auto: 'Auto',
+  h264: 'H.264',
+  vp9: 'VP9',
+  vp8: 'VP8',
+};
+
+export const RECORDING_SIZES = [
+  { width: 1280, height: 720, label: '720p' },
+  { width: 1920, height: 1080, label: '1080p' },
+  { width: 2560, height: 1440, label: '1440p' },
+];
+
+export const RECORDING_FRAME_RATES = [1, 5, 15, 30];
+export const RECORDING_AUDIO_BITRATES = [64_000, 96_000, 128_000, 192_000];
+
+export const MIN_VIDEO_BITRATE = 500_000;
+export const MAX_VIDEO_BITRATE = 12_000_000;
+
+/** The event's recording settings; a preset always reads its current values */
+export function getRecordingQuality(event: IgniteEvent | null | undefined): RecordingQuality {
+  const saved = event?.recordingQuality;
+  if (!saved) return DEFAULT_RECORDING_QUALITY;
+  if (saved.preset !== 'custom') return RECORDING_PRESETS[saved.preset] ?? DEFAULT_RECORDING_QUALITY;
+  return { ...DEFAULT_RECORDING_QUALITY, ...saved };
+}
+
+/** Roughly how many bytes a recording of `durationMs` takes; the bitrate is a ceiling, so usually less */
+export function estimateRecordingBytes(quality: RecordingQuality, durationMs: number): number {
+  return ((quality.videoBitsPerSecond + quality.audioBitsPerSecond) * durationMs) / 1000 / 8;
+}
+
+/** Byte count as "45 MB" or "1.2 GB" */
+export function formatFileSize(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  if (mb >= 1024) return `${(mb / 1024).toFixed(1)} GB`;
+  return mb >= 10 ? `${Math.round(mb)} MB` : `${mb.toFixed(1)} MB`;
+}
@@ -0,0 +1,139 @@
+import fixWebmDuration from 'fix-webm-duration';
+import type { RecordingChunk } from '../types';
+import { getRecordingChunks, deleteRecordingChunks, putRecordingBlob, getRunCheckpoint, putRunCheckpoint } from './db';
+import { joinRecordings } from './convertToMp4';
+
+// Recordings are streamed to IndexedDB chunk by chunk (see useMediaRecorder),
+// so a reload loses at most one chunk. These helpers turn the chunks back into
+// a playable file.
+
+/** A talk's streamed chunks with no recorder writing to them any more */
+export interface OrphanedRecording {
+  presId: string;
+  /** Recorded time over all parts */
+  durationMs: number;
+  bytes: number;
+  /** When the last chunk was written; 0 if unknown */
+  savedAt: number;
+}
+
+/** How often an open run window refreshes its checkpoint while a talk is up, paused or not */
+export const RUN_HEARTBEAT_MS = 5_000;
+// A checkpoint this quiet was left by a run window that is gone
+const RUN_GONE_AFTER_MS = 3 * RUN_HEARTBEAT_MS;
+
+/** Part number for a talk resumed after a reload: one past the last recorded part */
+export function getNextRecordingPart(chunks: RecordingChunk[]): number {
+  return chunks.reduce((max, c) => Math.max(max, c.part + 1), 0);
+}
+
+/** One playable blob per part, oldest first; WebM parts get their duration written */
+export async function buildRecordingParts(chunks: RecordingChunk[]): Promise<Blob[]> {
+  const byPart = new Map<number, RecordingChunk[]>();
+  for (const chunk of chunks) {
+    const list = byPart.get(chunk.part) ?? [];
+    list.push(chunk);
+    byPart.set(chunk.part, list);
+  }
+
+  const parts: Blob[] = [];
+  for (const part of [...byPart.keys()].sort((a, b) => a - b)) {
+    const list = byPart.get(part)!;
+    const type = list[0].blob.type || 'video/webm';
+    let blob = new Blob(list.map((c) => c.blob), { type });
+    // MediaRecorder only writes the WebM duration on a clean stop
+    const durationMs = list[list.length - 1].recordedMs;
+    if (type.startsWith('video/webm') && durationMs > 0) {
+      try {
+        blob = await fixWebmDuration(blob, durationMs, { logger: false });
+      } catch {
+        // Still playable, just without a seek bar
+      }
+    }
+    parts.push(blob);
+  }
+  return parts;
+}
+
+/**
+ * Put a talk's recording back together from its streamed chunks.
+ * `finalPart` is the in-memory recording of a part that just ended cleanly;
+ * it stands in for that part's chunks. `recovered` is what setup already
+ * made of the earlier parts; it goes first. Returns null if nothing was recorded.
+ */
+export async function assembleRecording(
+  presId: string,
+  finalPart?: { part: number; blob: Blob },
+  recovered?: Blob,
+): Promise<Blob | null> {
+  const chunks = await getRecordingChunks(presId);
+  const earlier = chunks.filter((c) => c.part !== finalPart?.part);
+  const parts = await buildRecordingParts(earlier);
+  if (recovered) parts.unshift(recovered);
+  if (finalPart) parts.push(finalPart.blob);
+
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return parts[0];
+
+  try {
+    return await joinRecordings(parts);
+  } catch (err) {
+    // Keep the longest part rather than nothing
+    console.error('[Recovery] Could not join recording parts:', err);
+    return parts.reduce((a, b) => (b.size > a.size ? b : a));
+  }
+}
+
+/**
+ * Talks among `presIds` with chunks that no recording was ever made from.
+ * The talk on stage in an open run window is still being recorded, however
+ * long it has been paused, so it never counts.
+ */
+export async function findOrphanedRecordings(eventId: string, presIds: string[]): Promise<OrphanedRecording[]> {
+  const checkpoint = await getRunCheckpoint(eventId);
+  const onStage = checkpoint && Date.now() - checkpoint.updatedAt < RUN_GONE_AFTER_MS
+    ? checkpoint.talk?.presId
+    : undefined;
+  const orphans: OrphanedRecording[] = [];
+  for (const presId of presIds) {
+    if (presId === onStage) continue;
+    const chunks = await getRecordingChunks(presId);
+    if (chunks.length === 0) continue;
+    const savedAt = chunks.reduce((latest, c) => Math.max(latest, c.savedAt ?? 0), 0);
+
+    // Each part's last chunk carries that part's recorded time
+    const partMs = new Map<number, number>();
+    for (const c of chunks) partMs.set(c.part, c.recordedMs);
+    orphans.push({
+      presId,
+      durationMs: [...partMs.values()].reduce((sum, ms) => sum + ms, 0),
+      bytes: chunks.reduce((sum, c) => sum + c.blob.size, 0),
+      savedAt,
+    });
+  }
+  return orphans;
+}
+
+/**
+ * Turn a talk's orphaned chunks into its recording; returns null if they held nothing.
+ * The run window no longer offers to resume the talk: its chunks are gone.
+ */
+export async function recoverRecording(eventId: string, presId: string): Promise<Blob | null> {
+  const blob = await assembleRecording(presId);
+  if (blob) await putRecordingBlob(presId, blob);
+  await deleteRecordingChunks(presId);
+  await forgetRunTalk(eventId, presId);
+  return blob;
+}
+
+/** Throw away a talk's orphaned chunks, and the run window's offer to resume it */
+export async function discardOrphanedRecording(eventId: string, presId: string): Promise<void> {
+  await deleteRecordingChunks(presId);
+  await forgetRunTalk(eventId, presId);
+}
+
+async function forgetRunTalk(eventId: string, presId: string): Promise<void> {
+  const checkpoint = await getRunCheckpoint(eventId);
+  if (checkpoint?.talk?.presId !== presId) return;
+  await putRunCheckpoint({ ...checkpoint, talk: null });
+}
@@ -0,0 +1,54 @@
+// Slides are rendered for the display they are shown on: the screen in device
+// pixels, rounded up to a standard size so a cached render still fits after a
+// small change (another laptop, a scaled display). No DOM at module level:
+// the PDF render worker imports pageScale.
+
+export interface RenderTarget {
+  width: number;
+  height: number;
+}
+
+const TARGET_SIZES: RenderTarget[] = [
+  { width: 1920, height: 1080 },
+  { width: 2560, height: 1440 },
+  { width: 3840, height: 2160 },
+];
+
+/** navigator.deviceMemory in GB; only Chromium reports it */
+export function getDeviceMemory(): number | undefined {
+  return (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+}
+
+/** The screen in device pixels, landscape */
+export function getDisplaySize(): RenderTarget {
+  const dpr = window.devicePixelRatio || 1;
+  const { width, height } = window.screen;
+  return {
+    width: Math.round(Math.max(width, height) * dpr),
+    height: Math.round(Math.min(width, height) * dpr),
+  };
+}
+
+/** Render size for this machine: the smallest standard size covering the screen, capped by memory */
+export function getRenderTarget(): RenderTarget {
+  const memory = getDeviceMemory() ?? 4;
+  // 2 GB machines stay at 1080p; 4K renders are for machines that report 8 GB
+  const sizes = TARGET_SIZES.slice(0, memory <= 2 ? 1 : memory < 8 ? 2 : 3);
+  const display = getDisplaySize();
+  return sizes.find((s) => s.width >= display.width && s.height >= display.height) ?? sizes[sizes.length - 1];
+}
+
+export function targetCovers(target: RenderTarget, needed: RenderTarget): boolean {
+  return target.width >= needed.width && target.height >= needed.height;
+}
+
+/** Scale that fits a page of the given size (at scale 1) inside the target */
+export function pageScale(pageWidth: number, pageHeight: number, target: RenderTarget): number {
+  return Math.min(target.width / pageWidth, target.height / pageHeight);
+}
+
+/** A width×height fitted inside the target; never scaled up */
+export function fitWithin(width: number, height: number, target: RenderTarget): RenderTarget {
+  const scale = Math.min(1, pageScale(width, height, target));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
@@ -0,0 +1,132 @@
+import type { RunLogEntry, RunLogKind } from '../types';
+
+// Run log helpers: turning the raw entries into per-talk runs, and exports
+
+/** What a screen reports; EventRunScreen adds the ids, names and timestamp */
+export type RunLogEvent = Pick<RunLogEntry, 'kind' | 'slide' | 'toSlide' | 'talkElapsedMs' | 'pausedMs'>;
+
+export const RUN_LOG_KIND_LABELS: Record<RunLogKind, string> = {
+  'talk-start': 'Started',
+  'talk-finish': 'Finished',
+  'talk-stop': 'Stopped early',
+  pause: 'Paused',
+  resume: 'Resumed',
+  'slide-jump': 'Jumped slide',
+  restart: 'Restarted',
+  're-record': 'Re-recorded',
+  skip: 'Skipped (autopilot)',
+  recovered: 'Resumed after reload',
+};
+
+/** One time a talk went on stage, from its start to its finish or stop */
+export interface TalkRun {
+  presId: string;
+  storyName: string;
+  speakerName: string;
+  startedAt: number;
+  endedAt: number | null;
+  outcome: 'finished' | 'stopped' | 'incomplete';
+  /** Slide showing when the talk was stopped (0-based) */
+  stoppedAtSlide?: number;
+  pauseCount: number;
+  pausedMs: number;
+  jumpCount: number;
+  restartCount: number;
+  reRecorded: boolean;
+  /** The page was reloaded mid-talk and the talk picked up again */
+  recovered: boolean;
+}
+
+// Same fallback as showChannel: crypto.randomUUID needs a secure context
+export function createRunLogId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** Group entries (sorted by time) into talk runs */
+export function summarizeRunLog(entries: RunLogEntry[]): TalkRun[] {
+  const runs: TalkRun[] = [];
+  const open = new Map<string, TalkRun>();
+  const reRecorded = new Set<string>();
+
+  for (const entry of entries) {
+    if (entry.kind === 're-record') {
+      reRecorded.add(entry.presId);
+      continue;
+    }
+    if (entry.kind === 'talk-start') {
+      const run: TalkRun = {
+        presId: entry.presId,
+        storyName: entry.storyName,
+        speakerName: entry.speakerName,
+        startedAt: entry.at,
+        endedAt: null,
+        outcome: 'incomplete',
+        pauseCount: 0,
+        pausedMs: 0,
+        jumpCount: 0,
+        restartCount: 0,
+        reRecorded: reRecorded.delete(entry.presId),
+        recovered: false,
+      };
+      runs.push(run);
+      open.set(entry.presId, run);
+      continue;
+    }
+
+    const run = open.get(entry.presId);
+    if (!run) continue;
+    switch (entry.kind) {
+      case 'pause':
+        run.pauseCount++;
+        break;
+      case 'resume':
+        run.pausedMs += entry.pausedMs ?? 0;
+        break;
+      case 'slide-jump':
+        run.jumpCount++;
+        break;
+      case 'restart':
+        run.restartCount++;
+        break;
+      case 'recovered':
+        run.recovered = true;
+        break;
+      case 'talk-finish':
+      case 'talk-stop':
+        run.endedAt = entry.at;
+        run.outcome = entry.kind === 'talk-finish' ? 'finished' : 'stopped';
+        if (entry.kind === 'talk-stop') run.stoppedAtSlide = entry.slide;
+        open.delete(entry.presId);
+        break;
+    }
+  }
+  return runs;
+}
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  let text = String(value);
+  // Spreadsheets run text like "=1+1" (a talk title, say) as a formula; plain numbers are safe
+  if (/^[=+\-@]/.test(text) && Number.isNaN(Number(text))) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toSeconds(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : (ms / 1000).toFixed(1);
+}
+
+/** Raw log as CSV; slides are 1-based here, as the audience counts them */
+export function runLogToCsv(entries: RunLogEntry[]): string {
+  const header = ['time', 'story', 'speaker', 'event', 'slide', 'to_slide', 'talk_elapsed_s', 'paused_s'];
+  const rows = entries.map((e) => [
+    new Date(e.at).toISOString(),
+    e.storyName,
+    e.speakerName,
+    RUN_LOG_KIND_LABELS[e.kind],
+    e.slide === undefined ? undefined : e.slide + 1,
+    e.toSlide === undefined ? undefined : e.toSlide + 1,
+    toSeconds(e.talkElapsedMs),
+    toSeconds(e.pausedMs),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+}
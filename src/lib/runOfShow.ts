@@ -0,0 +1,23 @@
+import type { EventPresentation, IgniteEvent } from '../types';
+
+// Autopilot: plays the lineup in order, with an intermission card between talks
+
+export const DEFAULT_INTERMISSION_SECONDS = 60;
+export const MIN_INTERMISSION_SECONDS = 5;
+export const MAX_INTERMISSION_SECONDS = 900;
+
+export function getIntermissionSeconds(event: IgniteEvent | null | undefined): number {
+  return event?.intermissionSeconds ?? DEFAULT_INTERMISSION_SECONDS;
+}
+
+/**
+ * The talk autopilot should play next: first in lineup order that hasn't been
+ * played yet, and that the operator hasn't skipped during this autopilot run.
+ */
+export function getAutopilotNext(
+  presentations: EventPresentation[],
+  playedIds: Set<string>,
+  skippedIds: Set<string>,
+): EventPresentation | null {
+  return presentations.find((p) => !playedIds.has(p.id) && !skippedIds.has(p.id)) ?? null;
+}
@@ -0,0 +1,237 @@
+// Control channel for a running event.
+// The audience window (EventRunScreen/PresentationScreen) owns the timer and
+// publishes its status; presenter and remote windows send commands back.
+// Transports are pluggable: BroadcastChannel between windows of this machine,
+// and a WebSocket relay (scripts/show-relay.mjs) for phones on the local network.
+
+export type ShowCommand =
+  | 'start'
+  | 'toggle-pause'
+  | 'pause'
+  | 'resume'
+  | 'stop'
+  | 'next-slide'
+  | 'prev-slide'
+  | 'play-next';
+
+/**
+ * Snapshot of the talk on screen, published by the audience window. Slides go
+ * by index: the audience window's blob: URLs are no good anywhere else.
+ */
+export interface TalkStatus {
+  presId: string;
+  storyName: string;
+  speakerName: string;
+  currentSlide: number;
+  totalSlides: number;
+  slideElapsed: number;
+  slideDurationMs: number;
+  totalElapsed: number;
+  totalDurationMs: number;
+  isWaiting: boolean;
+  isPaused: boolean;
+  isFinished: boolean;
+}
+
+/** Where the event stands between talks, published by EventRunScreen */
+export interface LineupStatus {
+  eventName: string;
+  playedCount: number;
+  totalCount: number;
+  nextUp: { presId: string; storyName: string; speakerName: string } | null;
+}
+
+export type ShowMessage =
+  | { type: 'status'; talk: TalkStatus | null }
+  | { type: 'lineup'; lineup: LineupStatus }
+  | { type: 'command'; command: ShowCommand }
+  | { type: 'request-status' };
+
+export interface ShowChannel {
+  send: (message: ShowMessage) => void;
+  subscribe: (handler: (message: ShowMessage) => void) => () => void;
+  close: () => void;
+}
+
+/** Raw message carrier; envelopes let the combined channel drop duplicates */
+interface ShowTransport {
+  send: (envelope: ShowEnvelope) => void;
+  onReceive: (handler: (envelope: ShowEnvelope) => void) => void;
+  close: () => void;
+}
+
+interface ShowEnvelope {
+  id: string;
+  message: ShowMessage;
+}
+
+const RELAY_URL_KEY = 'show_relay_url';
+const RELAY_TOKEN_KEY_PREFIX = 'show_relay_token_';
+const RECONNECT_DELAY_MS = 2000;
+const MAX_QUEUED_MESSAGES = 20;
+const SEEN_IDS_LIMIT = 200;
+
+// crypto.randomUUID needs a secure context, which a phone on plain http:// is not
+function createMessageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function getStoredRelayUrl(): string | null {
+  return localStorage.getItem(RELAY_URL_KEY);
+}
+
+export function setStoredRelayUrl(url: string | null): void {
+  if (url) localStorage.setItem(RELAY_URL_KEY, url);
+  else localStorage.removeItem(RELAY_URL_KEY);
+}
+
+/** Token a client must show to join the event's room on the relay; the remote link carries it */
+export function getStoredRelayToken(eventId: string): string | null {
+  return localStorage.getItem(RELAY_TOKEN_KEY_PREFIX + eventId);
+}
+
+export function setStoredRelayToken(eventId: string, token: string): void {
+  localStorage.setItem(RELAY_TOKEN_KEY_PREFIX + eventId, token);
+}
+
+/** The event window's relay token, made on first use */
+export function getOrCreateRelayToken(eventId: string): string {
+  const stored = getStoredRelayToken(eventId);
+  if (stored) return stored;
+  // getRandomValues, unlike randomUUID, also works outside secure contexts
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const token = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  setStoredRelayToken(eventId, token);
+  return token;
+}
+
+/** An https page may not open a ws:// socket: the browser blocks it as mixed content */
+export function isRelayBlocked(relayUrl: string | null | undefined): boolean {
+  return window.location.protocol === 'https:' && !!relayUrl?.trim().toLowerCase().startsWith('ws://');
+}
+
+/** Same-machine transport between windows of this origin */
+function createBroadcastTransport(eventId: string): ShowTransport {
+  const channel = new BroadcastChannel(`ignite-show-${eventId}`);
+  return {
+    send: (envelope) => channel.postMessage(envelope),
+    onReceive: (handler) => {
+      channel.onmessage = (e: MessageEvent<ShowEnvelope>) => handler(e.data);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/** Network transport through the local relay; reconnects until closed */
+function createWebSocketTransport(relayUrl: string, eventId: string, token: string): ShowTransport {
+  const url = new URL(relayUrl);
+  url.searchParams.set('room', eventId);
+  url.searchParams.set('token', token);
+
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let receive: ((envelope: ShowEnvelope) => void) | null = null;
+  const queue: string[] = [];
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      while (queue.length > 0) socket?.send(queue.shift()!);
+    };
+    socket.onmessage = (e) => {
+      try {
+        receive?.(JSON.parse(e.data as string) as ShowEnvelope);
+      } catch {
+        // Ignore malformed frames
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: (envelope) => {
+      const data = JSON.stringify(envelope);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        queue.push(data);
+        if (queue.length > MAX_QUEUED_MESSAGES) queue.shift();
+      }
+    },
+    onReceive: (handler) => {
+      receive = handler;
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+}
+
+/**
+ * Open the control channel of an event over every available transport.
+ * A message reaching us through both transports is only delivered once.
+ * The relay is only used with the event's token.
+ */
+export function createShowChannel(eventId: string, relayUrl?: string | null, relayToken?: string | null): ShowChannel {
+  const transports: ShowTransport[] = [];
+  if (typeof BroadcastChannel !== 'undefined') {
+    transports.push(createBroadcastTransport(eventId));
+  }
+  if (relayUrl && relayToken) {
+    try {
+      transports.push(createWebSocketTransport(relayUrl, eventId, relayToken));
+    } catch (err) {
+      console.warn('[Show] Invalid relay URL:', relayUrl, err);
+    }
+  }
+
+  const handlers = new Set<(message: ShowMessage) => void>();
+  const seenIds = new Set<string>();
+
+  const handleEnvelope = (envelope: ShowEnvelope) => {
+    if (!envelope?.id || seenIds.has(envelope.id)) return;
+    seenIds.add(envelope.id);
+    if (seenIds.size > SEEN_IDS_LIMIT) {
+      seenIds.delete(seenIds.values().next().value!);
+    }
+    handlers.forEach((h) => h(envelope.message));
+  };
+  transports.forEach((t) => t.onReceive(handleEnvelope));
+
+  return {
+    send: (message) => {
+      const envelope = { id: createMessageId(), message };
+      transports.forEach((t) => t.send(envelope));
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    close: () => {
+      handlers.clear();
+      transports.forEach((t) => t.close());
+    },
+  };
+}
+
+/**
+ * Time left on the current slide, extrapolated from a status snapshot.
+ * `sinceReceivedMs` is measured on the receiving device — clocks differ between devices.
+ */
+export function getSlideRemainingMs(talk: TalkStatus, sinceReceivedMs: number): number {
+  const drift = talk.isPaused || talk.isWaiting || talk.isFinished ? 0 : sinceReceivedMs;
+  return Math.max(0, talk.slideDurationMs - talk.slideElapsed - drift);
+}
+
+/** Time left in the whole talk, extrapolated from a status snapshot */
+export function getTotalRemainingMs(talk: TalkStatus, sinceReceivedMs: number): number {
+  const drift = talk.isPaused || talk.isWaiting || talk.isFinished ? 0 : sinceReceivedMs;
+  return Math.max(0, talk.totalDurationMs - talk.totalElapsed - drift);
+}
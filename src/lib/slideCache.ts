@@ -0,0 +1,121 @@
+import type { EventPresentation, LoadedDeck, RenderedSlide, TalkFormat } from '../types';
+import { getPdfBlob, getDeckImages, getSlideCache, putSlideCache, getSlideCacheKeys } from './db';
+import { THUMB_WIDTH, renderPdfSlides, RenderCancelledError } from './pdfRenderer';
+import { renderImageSlides } from './imageDeck';
+import { type RenderTarget, getRenderTarget, targetCovers } from './renderTarget';
+import { slidesToDeck } from './slideResources';
+
+// Rendered slides are kept in IndexedDB (see db.ts), so a talk starts by
+// reading PNGs instead of rendering the PDF. Replacing a PDF drops its cache.
+// A talk keeps one render, at the size of the screen it was made for; it is
+// used on any screen it covers and redone for a bigger one.
+
+/** Identifies a render size in the slide cache; change it whenever the output changes */
+function renderKey(target: RenderTarget): string {
+  return `fit${target.width}x${target.height}-thumb${THUMB_WIDTH}`;
+}
+
+function parseRenderKey(key: string): RenderTarget | null {
+  const match = /^fit(\d+)x(\d+)-thumb(\d+)$/.exec(key);
+  if (!match || Number(match[3]) !== THUMB_WIDTH) return null;
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+/** Cached render keys good enough for this screen, by presentation */
+async function usableRenderKeys(): Promise<Map<string, string>> {
+  const target = getRenderTarget();
+  const usable = new Map<string, string>();
+  for (const [presId, key] of await getSlideCacheKeys()) {
+    const size = parseRenderKey(key);
+    if (size && targetCovers(size, target)) usable.set(presId, key);
+  }
+  return usable;
+}
+
+export async function cacheRenderedSlides(presId: string, slides: RenderedSlide[], target = getRenderTarget()): Promise<void> {
+  try {
+    await putSlideCache({ presId, renderKey: renderKey(target), slides, createdAt: Date.now() });
+  } catch (err) {
+    // Usually quota; the talk still plays, it just renders next time
+    console.warn('[SlideCache] Could not store slides:', err);
+  }
+}
+
+export async function getCachedSlides(presId: string, format: TalkFormat): Promise<RenderedSlide[] | null> {
+  const key = (await usableRenderKeys()).get(presId);
+  const entry = key ? await getSlideCache(presId, key) : undefined;
+  // A format change can leave a cached deck with the wrong slide count
+  return entry && entry.slides.length === format.slideCount ? entry.slides : null;
+}
+
+/** A talk's slides at whatever size they were cached, for previews in another window; null if not cached */
+export async function getSlidePreviews(presId: string): Promise<RenderedSlide[] | null> {
+  const key = (await getSlideCacheKeys()).find(([id]) => id === presId)?.[1];
+  const entry = key ? await getSlideCache(presId, key) : undefined;
+  return entry?.slides ?? null;
+}
+
+export async function getCachedPresIds(): Promise<Set<string>> {
+  return new Set((await usableRenderKeys()).keys());
+}
+
+/** Slides of a talk from the cache, rendering (and caching) them on a miss */
+export async function loadCachedSlides(
+  pres: EventPresentation,
+  format: TalkFormat,
+  onProgress?: (page: number) => void,
+  signal?: AbortSignal,
+): Promise<RenderedSlide[]> {
+  const cached = await getCachedSlides(pres.id, format);
+  if (cached) return cached;
+
+  const target = getRenderTarget();
+  const options = { countFix: pres.countFix, pdfPassword: pres.pdfPassword, target };
+  let slides: RenderedSlide[];
+  if (pres.deckKind === 'images') {
+    const images = await getDeckImages(pres.id);
+    if (!images) throw new Error('Slide images not found');
+    slides = await renderImageSlides(images, format, onProgress, signal, options);
+  } else {
+    const pdf = await getPdfBlob(pres.id);
+    if (!pdf) throw new Error('PDF not found');
+    slides = await renderPdfSlides(pdf, format, onProgress, signal, options);
+  }
+  await cacheRenderedSlides(pres.id, slides, target);
+  return slides;
+}
+
+export async function loadCachedDeck(
+  pres: EventPresentation,
+  format: TalkFormat,
+  onProgress?: (page: number) => void,
+  signal?: AbortSignal,
+): Promise<LoadedDeck> {
+  return slidesToDeck(pres.fileName, await loadCachedSlides(pres, format, onProgress, signal));
+}
+
+/**
+ * Render every deck that isn't cached yet, one at a time. Decks that fail
+ * (wrong slide count, broken file) are skipped and returned.
+ */
+export async function preRenderDecks(
+  presentations: EventPresentation[],
+  format: TalkFormat,
+  onDeckDone?: (presId: string, ok: boolean) => void,
+  signal?: AbortSignal,
+): Promise<EventPresentation[]> {
+  const failed: EventPresentation[] = [];
+  for (const pres of presentations) {
+    if (signal?.aborted) throw new RenderCancelledError();
+    try {
+      await loadCachedSlides(pres, format, undefined, signal);
+      onDeckDone?.(pres.id, true);
+    } catch (err) {
+      if (err instanceof RenderCancelledError) throw err;
+      console.warn(`[SlideCache] Could not render ${pres.fileName}:`, err);
+      failed.push(pres);
+      onDeckDone?.(pres.id, false);
+    }
+  }
+  return failed;
+}
@@ -0,0 +1,66 @@
+import type { EventPresentation, IgniteEvent, SlideFitMode, SlideFitSettings } from '../types';
+
+// Slides are shown on a stage shaped like the deck's most common slide.
+// Slides of another shape are fitted the same way on screen (SlideCanvas)
+// and in the recording canvas (useMediaRecorder), so the two match.
+
+export const DEFAULT_SLIDE_FIT: SlideFitSettings = {
+  mode: 'contain',
+  background: '#000000',
+};
+
+export const SLIDE_FIT_LABELS: Record<SlideFitMode, string> = {
+  contain: 'Fit',
+  cover: 'Fill',
+  stretch: 'Stretch',
+};
+
+/** CSS object-fit for each mode */
+export const SLIDE_FIT_OBJECT_FIT: Record<SlideFitMode, 'contain' | 'cover' | 'fill'> = {
+  contain: 'contain',
+  cover: 'cover',
+  stretch: 'fill',
+};
+
+// Two aspect ratios closer than this count as the same shape
+export const ASPECT_TOLERANCE = 0.02;
+
+/** The event's fit, with the talk's mode override */
+export function getSlideFit(event: IgniteEvent | null | undefined, pres?: EventPresentation | null): SlideFitSettings {
+  const fit = { ...DEFAULT_SLIDE_FIT, ...event?.slideFit };
+  return pres?.slideFitMode ? { ...fit, mode: pres.slideFitMode } : fit;
+}
+
+/** Most common width/height ratio among the slides */
+export function deckAspectRatio(slides: { width: number; height: number }[]): number {
+  const ratios = slides.map((s) => s.width / s.height);
+  const counts = ratios.map((r) => ratios.filter((o) => Math.abs(o - r) < ASPECT_TOLERANCE).length);
+  return ratios[counts.indexOf(Math.max(...counts))] ?? 16 / 9;
+}
+
+/** Where a source of srcW×srcH lands in a dstW×dstH box */
+export function fitRect(srcW: number, srcH: number, dstW: number, dstH: number, mode: SlideFitMode) {
+  if (mode === 'stretch' || srcW <= 0 || srcH <= 0) return { x: 0, y: 0, width: dstW, height: dstH };
+  const scale = mode === 'cover'
+    ? Math.max(dstW / srcW, dstH / srcH)
+    : Math.min(dstW / srcW, dstH / srcH);
+  const width = srcW * scale;
+  const height = srcH * scale;
+  return { x: (dstW - width) / 2, y: (dstH - height) / 2, width, height };
+}
+
+/** Paint the background, then the source fitted into the whole canvas */
+export function drawFitted(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  srcW: number,
+  srcH: number,
+  fit: SlideFitSettings,
+) {
+  const { width: dstW, height: dstH } = ctx.canvas;
+  ctx.fillStyle = fit.background;
+  ctx.fillRect(0, 0, dstW, dstH);
+  const rect = fitRect(srcW, srcH, dstW, dstH, fit.mode);
+  // 'cover' overflows the canvas; drawImage clips it
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height);
+}
@@ -0,0 +1,130 @@
+import type { LoadedDeck, RenderedSlide, SlideImage } from '../types';
+import { deckAspectRatio } from './slideFit';
+import { fitWithin, getDeviceMemory, getDisplaySize } from './renderTarget';
+
+// Owns the memory behind loaded decks: the object URLs of their slides and
+// the bitmaps decoded from them for the stage and the recording. Bitmaps are
+// kept least-recently-used under a budget set by the device's memory, so a
+// long event doesn't pile up decoded slides. Whoever loads a deck releases it.
+
+interface CachedBitmap {
+  bitmap: ImageBitmap;
+  bytes: number;
+}
+
+// Blobs behind live object URLs, so a slide decodes without a fetch
+const slideBlobs = new Map<string, Blob>();
+// Map order is use order: the first entry is the least recently used
+const bitmaps = new Map<string, CachedBitmap>();
+const decoding = new Map<string, Promise<ImageBitmap | null>>();
+let bitmapBytes = 0;
+
+// The slides just used (on stage, about to be) are never evicted
+const KEEP_RECENT = 4;
+const MB = 1024 * 1024;
+
+function bitmapBudget(): number {
+  const memory = getDeviceMemory() ?? 4;
+  return Math.min(512, Math.max(128, memory * 64)) * MB;
+}
+
+function dropBitmap(url: string) {
+  const entry = bitmaps.get(url);
+  if (!entry) return;
+  bitmaps.delete(url);
+  bitmapBytes -= entry.bytes;
+  entry.bitmap.close();
+}
+
+function evict() {
+  const budget = bitmapBudget();
+  for (const url of bitmaps.keys()) {
+    if (bitmapBytes <= budget || bitmaps.size <= KEEP_RECENT) break;
+    dropBitmap(url);
+  }
+}
+
+/** Object URLs for rendered slides; release the deck with releaseDeck */
+export function slidesToDeck(fileName: string, rendered: RenderedSlide[]): LoadedDeck {
+  const slides: SlideImage[] = rendered.map((s) => {
+    const objectUrl = URL.createObjectURL(s.blob);
+    slideBlobs.set(objectUrl, s.blob);
+    return {
+      pageNumber: s.pageNumber,
+      objectUrl,
+      width: s.width,
+      height: s.height,
+      ...(s.media && { mediaUrl: URL.createObjectURL(s.media), mediaKind: s.mediaKind }),
+    };
+  });
+  return {
+    fileName,
+    slides,
+    aspectRatio: deckAspectRatio(slides),
+  };
+}
+
+/** Revoke a deck's URLs and free its bitmaps; bitmaps still in use elsewhere are closed too */
+export function releaseDeck(deck: LoadedDeck) {
+  for (const slide of deck.slides) {
+    URL.revokeObjectURL(slide.objectUrl);
+    slideBlobs.delete(slide.objectUrl);
+    dropBitmap(slide.objectUrl);
+    if (slide.mediaUrl) URL.revokeObjectURL(slide.mediaUrl);
+  }
+}
+
+/** The slide's bitmap if it's decoded; counts as a use */
+export function peekSlideBitmap(slide: SlideImage): ImageBitmap | null {
+  const entry = bitmaps.get(slide.objectUrl);
+  if (!entry) return null;
+  bitmaps.delete(slide.objectUrl);
+  bitmaps.set(slide.objectUrl, entry);
+  return entry.bitmap;
+}
+
+async function decodeSlide(slide: SlideImage): Promise<ImageBitmap | null> {
+  const blob = slideBlobs.get(slide.objectUrl);
+  if (!blob) return null;
+  // Decoded no larger than the screen, whatever the render size
+  const size = fitWithin(slide.width, slide.height, getDisplaySize());
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: 'high' });
+  } catch (err) {
+    console.warn(`[SlideResources] Could not decode slide ${slide.pageNumber}:`, err);
+    return null;
+  }
+  // Released while decoding
+  if (!slideBlobs.has(slide.objectUrl)) {
+    bitmap.close();
+    return null;
+  }
+  dropBitmap(slide.objectUrl);
+  const bytes = bitmap.width * bitmap.height * 4;
+  bitmaps.set(slide.objectUrl, { bitmap, bytes });
+  bitmapBytes += bytes;
+  evict();
+  return bitmap;
+}
+
+/**
+ * The slide's still as a bitmap, decoding it if needed. Null if its deck
+ * was released or the image is broken. A bitmap may be closed later to
+ * make room (its width drops to 0); draw it right away or keep the pixels.
+ */
+export function getSlideBitmap(slide: SlideImage): Promise<ImageBitmap | null> {
+  const ready = peekSlideBitmap(slide);
+  if (ready) return Promise.resolve(ready);
+  let pending = decoding.get(slide.objectUrl);
+  if (!pending) {
+    pending = decodeSlide(slide).finally(() => decoding.delete(slide.objectUrl));
+    decoding.set(slide.objectUrl, pending);
+  }
+  return pending;
+}
+
+/** Decode slides one at a time, so a deck doesn't decode all at once */
+export async function prefetchSlideBitmaps(slides: SlideImage[]): Promise<void> {
+  for (const slide of slides) await getSlideBitmap(slide);
+}
@@ -0,0 +1,76 @@
+// Time source for a running talk.
+// performance.now() is monotonic but, depending on the OS, stops counting while
+// the machine sleeps; Date.now() keeps counting but can be nudged by clock sync.
+// The clock follows performance.now() and folds in any wall-clock gap large
+// enough to be a sleep, so a talk resumes on the slide it would have reached.
+
+const SLEEP_GAP_MS = 2000;
+const BACKGROUND_TICK_MS = 250;
+
+export interface TalkClock {
+  /** Milliseconds on a monotonic timeline that includes time spent asleep */
+  now: () => number;
+}
+
+export function createTalkClock(): TalkClock {
+  let lastPerf = performance.now();
+  let lastWall = Date.now();
+  let sleptMs = 0;
+
+  return {
+    now: () => {
+      const perf = performance.now();
+      const wall = Date.now();
+      const gap = wall - lastWall - (perf - lastPerf);
+      if (gap > SLEEP_GAP_MS) sleptMs += gap;
+      lastPerf = perf;
+      lastWall = wall;
+      return perf + sleptMs;
+    },
+  };
+}
+
+/**
+ * Call `onTick` every animation frame while the page is visible, plus a
+ * steady worker heartbeat — rAF stops in hidden tabs, worker timers don't.
+ * Returns a stop function.
+ */
+export function startTickSource(onTick: () => void): () => void {
+  let stopped = false;
+  let rafId = 0;
+
+  const frame = () => {
+    if (stopped) return;
+    onTick();
+    rafId = requestAnimationFrame(frame);
+  };
+  rafId = requestAnimationFrame(frame);
+
+  let worker: Worker | null = null;
+  let fallbackId: ReturnType<typeof setInterval> | undefined;
+  try {
+    worker = new Worker(new URL('../workers/clockWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = () => {
+      if (!stopped) onTick();
+    };
+    worker.postMessage({ type: 'start', intervalMs: BACKGROUND_TICK_MS });
+  } catch (err) {
+    // Throttled to ~1s in hidden tabs, but still better than rAF's nothing
+    console.warn('[Clock] Worker unavailable, using main-thread timer:', err);
+    fallbackId = setInterval(onTick, BACKGROUND_TICK_MS);
+  }
+
+  // Catch up straight away when the tab comes back or the machine wakes
+  const handleVisibility = () => {
+    if (!stopped) onTick();
+  };
+  document.addEventListener('visibilitychange', handleVisibility);
+
+  return () => {
+    stopped = true;
+    cancelAnimationFrame(rafId);
+    worker?.terminate();
+    clearInterval(fallbackId);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+}
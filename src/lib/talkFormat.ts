@@ -0,0 +1,113 @@
+import type { IgniteEvent, SlideDurations, TalkFormat, TalkFormatPreset } from '../types';
+
+interface TalkFormatPresetInfo {
+  preset: Exclude<TalkFormatPreset, 'custom'>;
+  label: string;
+  slideCount: number;
+  slideSeconds: number;
+}
+
+export const TALK_FORMAT_PRESETS: TalkFormatPresetInfo[] = [
+  { preset: 'ignite', label: 'Ignite', slideCount: 20, slideSeconds: 15 },
+  { preset: 'pechakucha', label: 'PechaKucha', slideCount: 20, slideSeconds: 20 },
+  { preset: 'lightning', label: 'Lightning', slideCount: 10, slideSeconds: 30 },
+  { preset: 'fifteen', label: '15 slides', slideCount: 15, slideSeconds: 20 },
+];
+
+export const DEFAULT_TALK_FORMAT: TalkFormat = {
+  preset: 'ignite',
+  slideCount: 20,
+  slideSeconds: 15,
+};
+
+export const MIN_SLIDES = 1;
+export const MAX_SLIDES = 100;
+export const MIN_SLIDE_SECONDS = 1;
+export const MAX_SLIDE_SECONDS = 300;
+
+/** Events created before formats existed run the classic 20×15s */
+export function getEventFormat(event: Pick<IgniteEvent, 'format'> | null | undefined): TalkFormat {
+  return event?.format ?? DEFAULT_TALK_FORMAT;
+}
+
+export function formatFromPreset(preset: TalkFormatPreset, current: TalkFormat): TalkFormat {
+  const info = TALK_FORMAT_PRESETS.find((p) => p.preset === preset);
+  if (!info) return { ...current, preset: 'custom' };
+  return { preset, slideCount: info.slideCount, slideSeconds: info.slideSeconds };
+}
+
+export function getFormatLabel(format: TalkFormat): string {
+  return TALK_FORMAT_PRESETS.find((p) => p.preset === format.preset)?.label ?? 'Custom';
+}
+
+export function getSlideDurationMs(format: TalkFormat): number {
+  return format.slideSeconds * 1000;
+}
+
+export function getTotalDurationMs(format: TalkFormat): number {
+  return format.slideCount * format.slideSeconds * 1000;
+}
+
+/**
+ * Check a talk's per-slide timing against the event format.
+ * Returns an error message, or null when the timing is usable.
+ */
+export function validateSlideDurations(format: TalkFormat, slideDurations: SlideDurations): string | null {
+  let totalMs = 0;
+  for (let i = 0; i < format.slideCount; i++) {
+    const seconds = slideDurations[i] ?? format.slideSeconds;
+    // Same floor as a format's slides, so any format can have custom timing
+    if (!Number.isFinite(seconds) || seconds < MIN_SLIDE_SECONDS) {
+      return `Slide ${i + 1} must stay up for at least ${MIN_SLIDE_SECONDS}s.`;
+    }
+    totalMs += Math.round(seconds * 1000);
+  }
+  if (Object.keys(slideDurations).some((key) => Number(key) >= format.slideCount)) {
+    return `Timing covers more than the ${format.slideCount} slides of this format.`;
+  }
+  const expectedMs = getTotalDurationMs(format);
+  if (totalMs !== expectedMs) {
+    const diffSeconds = Math.abs(totalMs - expectedMs) / 1000;
+    return `Slides add up to ${formatClock(totalMs)}, ${diffSeconds}s ${totalMs > expectedMs ? 'over' : 'under'} — the talk must last exactly ${formatClock(expectedMs)}.`;
+  }
+  return null;
+}
+
+/** Per-slide durations for a talk; falls back to uniform timing when the custom map no longer fits the format */
+export function getSlideDurationsMs(format: TalkFormat, slideDurations?: SlideDurations): number[] {
+  const uniform = Array.from({ length: format.slideCount }, () => getSlideDurationMs(format));
+  if (!slideDurations || validateSlideDurations(format, slideDurations)) return uniform;
+  return uniform.map((ms, i) => (slideDurations[i] !== undefined ? Math.round(slideDurations[i] * 1000) : ms));
+}
+
+/** Clock-style duration, e.g. "5:00" or "6:40" */
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+/** Compact total label for progress bars, e.g. "5 min" or "6:40" */
+export function formatTotalLabel(format: TalkFormat): string {
+  const totalSeconds = format.slideCount * format.slideSeconds;
+  if (totalSeconds % 60 === 0) return `${totalSeconds / 60} min`;
+  return formatClock(totalSeconds * 1000);
+}
+
+/** Prose duration, e.g. "5 minutes" or "6 minutes 40 seconds" */
+export function formatDurationWords(format: TalkFormat): string {
+  const totalSeconds = format.slideCount * format.slideSeconds;
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  const parts: string[] = [];
+  if (m > 0) parts.push(`${m} minute${m !== 1 ? 's' : ''}`);
+  if (s > 0) parts.push(`${s} second${s !== 1 ? 's' : ''}`);
+  return parts.join(' ');
+}
+
+/** Adjective form for copy, e.g. "5-minute" (rounded up to whole minutes) */
+export function formatDurationAdjective(format: TalkFormat): string {
+  const totalSeconds = format.slideCount * format.slideSeconds;
+  return `${Math.max(1, Math.ceil(totalSeconds / 60))}-minute`;
+}
@@ -0,0 +1,66 @@
+// Minimal ZIP reader: enough for a folder of slide images. Handles stored and
+// deflated entries (inflated with DecompressionStream); no ZIP64, no encryption.
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64 KB, at the very end
+  const min = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= min; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new ZipFormatError('Not a ZIP file');
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Blob> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+}
+
+/** Files in the archive (folders left out), in archive order */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new ZipFormatError('Damaged ZIP directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new ZipFormatError(`Damaged ZIP entry: ${name}`);
+    // The local header's own name/extra lengths can differ from the directory's
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer.slice(dataStart, dataStart + compressedSize));
+
+    if (method === 0) entries.push({ name, blob: new Blob([data]) });
+    else if (method === 8) entries.push({ name, blob: await inflate(data) });
+    else throw new ZipFormatError(`Unsupported compression in ${name}`);
+  }
+  return entries;
+}
@@ -7,6 +7,81 @@ export interface IgniteEvent {
   link: string;
   recordEnabled: boolean;
   createdAt: number;
+  format?: TalkFormat;
+  /** Autopilot pause between talks; DEFAULT_INTERMISSION_SECONDS when unset */
+  intermissionSeconds?: number;
+  /** Sounds for the speaker; DEFAULT_AUDIO_CUES when unset */
+  audioCues?: AudioCueSettings;
+  /** How slides of another shape fill the stage; DEFAULT_SLIDE_FIT when unset */
+  slideFit?: SlideFitSettings;
+  /** Decks can't be replaced or rolled back; set when the show starts */
+  decksFrozen?: boolean;
+  /** Speaker camera tile in recordings; DEFAULT_CAMERA_PIP (off) when unset */
+  camera?: CameraPipSettings;
+  /** Size, frame rate and bitrate of recordings; the economy preset when unset */
+  recordingQuality?: RecordingQuality;
+}
+
+export type RecordingPreset = 'economy' | 'archival' | 'custom';
+
+/** Preferred video codec; the recorder falls back when the browser can't record it */
+export type RecordingCodec = 'auto' | 'h264' | 'vp9' | 'vp8';
+
+export interface RecordingQuality {
+  preset: RecordingPreset;
+  /** Largest frame; the frame keeps the deck's shape inside it */
+  width: number;
+  height: number;
+  /** Frames captured per second while slides are still (clips and the camera repaint on their own) */
+  frameRate: number;
+  videoBitsPerSecond: number;
+  audioBitsPerSecond: number;
+  codec: RecordingCodec;
+}
+
+export type CameraCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type CameraShape = 'rectangle' | 'rounded' | 'circle';
+
+// Speaker webcam composited into the recording as a picture-in-picture tile
+export interface CameraPipSettings {
+  enabled: boolean;
+  corner: CameraCorner;
+  /** Tile width as a share of the video width */
+  size: number;
+  shape: CameraShape;
+}
+
+/** 'contain': letterbox on the background. 'cover': fill and crop. 'stretch': fill and distort */
+export type SlideFitMode = 'contain' | 'cover' | 'stretch';
+
+export interface SlideFitSettings {
+  mode: SlideFitMode;
+  /** Letterbox colour, as #rrggbb */
+  background: string;
+}
+
+// Synthesized sounds played during a talk
+export interface AudioCueSettings {
+  /** Short tick when the slide advances */
+  slideTick: boolean;
+  /** Chime when the talk is about to end */
+  finalWarning: boolean;
+  /** Seconds before the end of the talk that the chime plays */
+  warningSeconds: number;
+  /** 0–1 */
+  volume: number;
+  /** Mix the cues into the recording too (off: the speaker hears them, the video doesn't) */
+  includeInRecording: boolean;
+}
+
+// Talk format: how many slides and how long each one stays up
+export type TalkFormatPreset = 'ignite' | 'pechakucha' | 'lightning' | 'fifteen' | 'custom';
+
+export interface TalkFormat {
+  preset: TalkFormatPreset;
+  slideCount: number;
+  slideSeconds: number;
 }
 
 export type StoryTone = 'optimistic' | 'dystopian';
@@ -23,6 +98,146 @@ export interface EventPresentation {
   socialX?: string;
   socialInstagram?: string;
   socialLinkedin?: string;
+  slideCount?: number;
+  slideDurations?: SlideDurations;
+  /** How the slides are stored; 'pdf' when unset */
+  deckKind?: DeckKind;
+  /** Slides that are clips or animations (0-based), set on upload */
+  mediaSlides?: number[];
+  /** Play clips with their sound; muted when unset */
+  mediaAudio?: boolean;
+  /** How a deck with the wrong page count was made to fit, chosen on upload */
+  countFix?: SlideCountFix;
+  /** Quality checks from upload time */
+  deckIssues?: DeckIssue[];
+  /** Overrides the event's fit mode for this talk */
+  slideFitMode?: SlideFitMode;
+  /** Number of the current deck; 1 when unset. Earlier ones are DeckVersions */
+  deckVersion?: number;
+  /** Opens an encrypted PDF; kept on this device only, never published */
+  pdfPassword?: string;
+  /** Speaker opted out of the camera tile */
+  cameraOff?: boolean;
+}
+
+/** The deck fields of a talk, which change together when its deck is replaced */
+export type DeckFields = Pick<EventPresentation, 'fileName' | 'deckKind' | 'slideCount' | 'countFix' | 'mediaSlides' | 'deckIssues' | 'pdfPassword'>;
+
+/** An earlier deck of a talk, kept when it was replaced */
+export interface DeckVersion extends DeckFields {
+  id: string;
+  presId: string;
+  version: number;
+  /** The PDF, or one blob per slide for an image deck */
+  files: Blob[];
+  replacedAt: number;
+}
+
+/** 'pdf': one PDF in the pdfs store. 'images': one image per slide in the deck-images store */
+export type DeckKind = 'pdf' | 'images';
+
+/** 'trim': drop pages past the format's count. 'pad': add blank slides up to it */
+export type SlideCountFix = 'trim' | 'pad';
+
+export type DeckIssueKind = 'slide-count' | 'mixed-sizes' | 'low-resolution' | 'blank-slides' | 'duplicate-slides' | 'large-file';
+
+/** One finding of the upload check; errors block the deck until fixed */
+export interface DeckIssue {
+  kind: DeckIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Affected slides, 1-based */
+  slides?: number[];
+}
+
+/** Seconds per slide, keyed by 0-based slide index; missing slides use the format default */
+export type SlideDurations = Record<number, number>;
+
+/** One rendered PDF page, as stored in the slide cache */
+export interface RenderedSlide {
+  pageNumber: number;
+  /** PNG at the render scale */
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Small JPEG for lists and previews */
+  thumbnail: Blob;
+  /** Clip or animated image shown instead of the still; `blob` is then its first frame */
+  media?: Blob;
+  mediaKind?: SlideMediaKind;
+}
+
+export type SlideMediaKind = 'video' | 'animated';
+
+// Slide cache: rendered decks keyed by presentation and render size
+export interface SlideCacheEntry {
+  presId: string;
+  renderKey: string;
+  slides: RenderedSlide[];
+  createdAt: number;
+}
+
+// Run log: what actually happened on stage, one entry per occurrence
+export type RunLogKind =
+  | 'talk-start'
+  | 'talk-finish'
+  | 'talk-stop'
+  | 'pause'
+  | 'resume'
+  | 'slide-jump'
+  | 'restart'
+  | 're-record'
+  | 'skip'
+  | 'recovered';
+
+export interface RunLogEntry {
+  id: string;
+  eventId: string;
+  presId: string;
+  /** Names at the time of the run — talks may be renamed or deleted later */
+  storyName: string;
+  speakerName: string;
+  kind: RunLogKind;
+  /** Wall-clock time (ms since epoch) */
+  at: number;
+  /** Slide showing when it happened (0-based) */
+  slide?: number;
+  /** Target of a slide jump (0-based) */
+  toSlide?: number;
+  /** Talk timer position, excluding pauses */
+  talkElapsedMs?: number;
+  /** Length of the pause that a `resume` ends */
+  pausedMs?: number;
+}
+
+// Crash recovery: saved while an event runs, so a reload can pick up the show
+export interface RunCheckpoint {
+  eventId: string;
+  playedIds: string[];
+  /** The talk on stage, or null between talks */
+  talk: TalkCheckpoint | null;
+  updatedAt: number;
+}
+
+export interface TalkCheckpoint {
+  presId: string;
+  currentSlide: number;
+  /** Talk timer position, excluding pauses */
+  talkElapsedMs: number;
+}
+
+/**
+ * A recording chunk streamed to IndexedDB as MediaRecorder delivers it.
+ * A talk resumed after a reload records a new part; parts are joined at the end.
+ */
+export interface RecordingChunk {
+  presId: string;
+  part: number;
+  blob: Blob;
+  /** Recorded time (pauses excluded) up to the end of this chunk */
+  recordedMs: number;
+  /** When the chunk was written; absent on chunks from older builds */
+  savedAt?: number;
 }
 
 // Shareable event data (encoded in URL, no blobs)
@@ -45,19 +260,24 @@ export interface ShareableEvent {
   presentations: ShareablePresentation[];
   eventId?: string;
   logo?: string;
+  format?: TalkFormat;
 }
 
 // Presentation runtime types (in-memory only)
 export interface SlideImage {
   pageNumber: number;
+  /** Still image; the first frame for motion slides */
   objectUrl: string;
   width: number;
   height: number;
+  mediaUrl?: string;
+  mediaKind?: SlideMediaKind;
 }
 
 export interface LoadedDeck {
   fileName: string;
   slides: SlideImage[];
+  /** Shape of the stage: the most common slide aspect ratio */
   aspectRatio: number;
 }
 
@@ -0,0 +1,12 @@
+// Heartbeat for the presentation timer. Worker timers are not throttled like
+// main-thread timers and rAF are when the tab is hidden, so ticks keep
+// arriving while the operator is in another window.
+
+let intervalId: ReturnType<typeof setInterval> | undefined;
+
+self.onmessage = (e: MessageEvent<{ type: 'start'; intervalMs: number } | { type: 'stop' }>) => {
+  clearInterval(intervalId);
+  if (e.data.type === 'start') {
+    intervalId = setInterval(() => self.postMessage('tick'), e.data.intervalMs);
+  }
+};
@@ -0,0 +1,111 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { PdfWorkerRequest, PdfWorkerResponse } from '../lib/pdfRenderPool';
+import { type RenderTarget, pageScale } from '../lib/renderTarget';
+
+// Renders PDF pages, fitted to the render target, into an OffscreenCanvas and PNG-encodes them, all off the
+// main thread. Driven by pdfRenderPool.
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = `${import.meta.env.BASE_URL}pdf.worker.min.mjs`;
+
+// pdf.js renders into an OffscreenCanvas, but its typings only name DOM canvases
+declare module 'pdfjs-dist/types/src/display/api' {
+  interface PDFPageProxy {
+    render(params: Omit<RenderParameters, 'canvas' | 'canvasContext'> & { canvas: OffscreenCanvas }): RenderTask;
+  }
+}
+
+// pdf.js makes scratch canvases through this; the default factory needs a DOM
+class OffscreenCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+    if (target.canvas) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+    }
+    target.canvas = null;
+    target.context = null;
+  }
+}
+
+// SVG filters need a DOM too; without them pdf.js draws the few affected images unfiltered
+class NoFilterFactory {
+  addFilter() { return 'none'; }
+  addHCMFilter() { return 'none'; }
+  addAlphaFilter() { return 'none'; }
+  addLuminosityFilter() { return 'none'; }
+  addHighlightHCMFilter() { return 'none'; }
+  destroy() {}
+}
+
+const documents = new Map<string, Promise<PDFDocumentProxy>>();
+
+function reply(response: PdfWorkerResponse) {
+  self.postMessage(response);
+}
+
+async function renderPage(jobId: string, pageNumber: number, target: RenderTarget, thumbWidth: number) {
+  const pdf = await documents.get(jobId);
+  // Job closed (cancelled) while this page was queued
+  if (!pdf || !documents.has(jobId)) return;
+
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: pageScale(base.width, base.height, target) });
+  const width = Math.floor(viewport.width);
+  const height = Math.floor(viewport.height);
+  const canvas = new OffscreenCanvas(width, height);
+  await page.render({ canvas, viewport }).promise;
+  page.cleanup();
+
+  if (!documents.has(jobId)) return;
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+  const thumbHeight = Math.round((height * thumbWidth) / width);
+  const thumbCanvas = new OffscreenCanvas(thumbWidth, thumbHeight);
+  thumbCanvas.getContext('2d')!.drawImage(canvas, 0, 0, thumbWidth, thumbHeight);
+  const thumbnail = await thumbCanvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+
+  reply({
+    type: 'rendered',
+    jobId,
+    slide: { pageNumber, blob, width, height, thumbnail },
+  });
+}
+
+self.onmessage = (e: MessageEvent<PdfWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'open':
+      documents.set(msg.jobId, pdfjsLib.getDocument({
+        data: msg.data,
+        password: msg.password,
+        CanvasFactory: OffscreenCanvasFactory,
+        FilterFactory: NoFilterFactory,
+        // Font faces are registered on a document; draw glyphs as paths instead
+        disableFontFace: true,
+        isOffscreenCanvasSupported: true,
+      }).promise);
+      break;
+    case 'render':
+      renderPage(msg.jobId, msg.pageNumber, msg.target, msg.thumbWidth).catch((err) => {
+        reply({ type: 'error', jobId: msg.jobId, pageNumber: msg.pageNumber, message: String(err?.message ?? err) });
+      });
+      break;
+    case 'close': {
+      const pdf = documents.get(msg.jobId);
+      documents.delete(msg.jobId);
+      pdf?.then((doc) => doc.destroy()).catch(() => {});
+      break;
+    }
+  }
+};